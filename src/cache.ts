@@ -0,0 +1,181 @@
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import { join } from 'node:path'
+
+export interface ImageCacheOptions {
+  /** 是否写入磁盘缓存，关闭时仍会合并同一 URL 的并发下载 */
+  enabled: boolean
+  /** 缓存目录 */
+  directory: string
+  /** 缓存总大小上限（字节） */
+  maxSize: number
+}
+
+export interface ImageCacheStats {
+  enabled: boolean
+  directory: string
+  entries: number
+  size: number
+  maxSize: number
+  hits: number
+  misses: number
+  pending: number
+}
+
+interface CacheEntry {
+  size: number
+}
+
+export interface ImageCache {
+  /** 读取 URL 对应的图片，未命中时调用 download 下载并写入缓存 */
+  get: (url: string, download: () => Promise<Buffer>) => Promise<Buffer>
+  /** 清空缓存，返回删除的文件数 */
+  clear: () => Promise<number>
+  /** 读取统计信息，启用缓存时首次调用会先扫描缓存目录 */
+  stats: () => Promise<ImageCacheStats>
+}
+
+/**
+ * 以 URL 的哈希为文件名的本地图片缓存。
+ * entries 的插入顺序即访问顺序，最早的条目最先被淘汰；文件的 mtime 记录最近访问时间，重启后据此恢复顺序。
+ */
+export function createImageCache(options: ImageCacheOptions, onError?: (message: string, error: Error) => void): ImageCache {
+  const entries = new Map<string, CacheEntry>()
+  const pending = new Map<string, Promise<Buffer>>()
+  let totalSize = 0
+  let hits = 0
+  let misses = 0
+  let ready: Promise<void> | null = null
+
+  const keyOf = (url: string) => createHash('sha1').update(url).digest('hex')
+  const pathOf = (key: string) => join(options.directory, key)
+
+  // 扫描缓存目录，按 mtime 从旧到新恢复访问顺序
+  const load = async () => {
+    await fs.mkdir(options.directory, { recursive: true })
+    const names = await fs.readdir(options.directory)
+    const files = await Promise.all(names.map(async (name) => {
+      const stat = await fs.stat(pathOf(name)).catch(() => null)
+      return stat?.isFile() ? [{ name, size: stat.size, mtime: stat.mtimeMs }] : []
+    }))
+    for (const file of files.flat().sort((a, b) => a.mtime - b.mtime)) {
+      entries.set(file.name, { size: file.size })
+      totalSize += file.size
+    }
+    await evict()
+  }
+
+  const init = () => {
+    ready ??= load().catch((error) => {
+      onError?.('加载图片缓存目录失败', error)
+    })
+    return ready
+  }
+
+  const remove = async (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return
+    entries.delete(key)
+    totalSize -= entry.size
+    await fs.rm(pathOf(key), { force: true })
+  }
+
+  // 淘汰最久未访问的条目，直到总大小不超过上限
+  const evict = async () => {
+    for (const key of entries.keys()) {
+      if (totalSize <= options.maxSize) break
+      await remove(key)
+    }
+  }
+
+  const read = async (key: string) => {
+    const entry = entries.get(key)
+    if (!entry) return null
+    try {
+      const data = await fs.readFile(pathOf(key))
+      entries.delete(key)
+      entries.set(key, entry)
+      const now = new Date()
+      fs.utimes(pathOf(key), now, now).catch(() => {})
+      return data
+    } catch {
+      // 文件被外部删除时同步移除索引
+      await remove(key)
+      return null
+    }
+  }
+
+  const write = async (key: string, data: Buffer) => {
+    if (data.length > options.maxSize) return
+    try {
+      await fs.writeFile(pathOf(key), data)
+      const previous = entries.get(key)
+      if (previous) {
+        entries.delete(key)
+        totalSize -= previous.size
+      }
+      entries.set(key, { size: data.length })
+      totalSize += data.length
+      await evict()
+    } catch (error: any) {
+      onError?.('写入图片缓存失败', error)
+    }
+  }
+
+  const get = (url: string, download: () => Promise<Buffer>) => {
+    const running = pending.get(url)
+    if (running) return running
+
+    const task = (async () => {
+      const key = keyOf(url)
+      if (options.enabled) {
+        await init()
+        const cached = await read(key)
+        if (cached) {
+          hits++
+          return cached
+        }
+      }
+
+      misses++
+      const data = await download()
+      if (options.enabled) {
+        await write(key, data)
+      }
+      return data
+    })().finally(() => {
+      pending.delete(url)
+    })
+
+    pending.set(url, task)
+    return task
+  }
+
+  // 关闭缓存时不扫描也不创建缓存目录
+  const clear = async () => {
+    if (options.enabled) await init()
+    const count = entries.size
+    for (const key of [...entries.keys()]) {
+      await remove(key)
+    }
+    hits = 0
+    misses = 0
+    return count
+  }
+
+  const stats = async () => {
+    if (options.enabled) await init()
+    return {
+      enabled: options.enabled,
+      directory: options.directory,
+      entries: entries.size,
+      size: totalSize,
+      maxSize: options.maxSize,
+      hits,
+      misses,
+      pending: pending.size,
+    }
+  }
+
+  return { get, clear, stats }
+}
@@ -0,0 +1,119 @@
+/** 说明模板中可用的占位符及其说明 */
+export const captionFields: Record<string, string> = {
+  title: '标题',
+  page: '多页作品的页码，例如 [1/3]',
+  pageCount: '总页数',
+  author: '作者名称',
+  authorId: '作者 ID',
+  id: '插画 ID',
+  tags: '标签',
+  translatedTags: '标签的翻译',
+  bookmarks: '收藏数',
+  views: '浏览数',
+  date: '发布日期',
+  url: '作品链接',
+  caption: '作品简介（超出长度时截断）',
+}
+
+/** 与旧版本相同的三行说明 */
+export const DEFAULT_CAPTION_TEMPLATE = '标题：{title}{page}\n作者：{author}\nID: {id}'
+
+/** 插画详情默认使用的详细说明 */
+export const VERBOSE_CAPTION_TEMPLATE = [
+  '标题：{title}{page}',
+  '作者：{author}（{authorId}）',
+  '标签：{tags}',
+  '翻译：{translatedTags}',
+  '收藏 {bookmarks} · 浏览 {views} · 发布于 {date}',
+  '{url}',
+  '{caption}',
+].join('\n')
+
+/** 内置的按命令模板，优先级低于配置项 captionTemplates 中同一命令的模板 */
+export const BUILTIN_CAPTION_TEMPLATES: Record<string, string> = {
+  '插画详情': VERBOSE_CAPTION_TEMPLATE,
+}
+
+/** 按命令名索引的模板，空字符串为通用模板 */
+export type CaptionTemplates = Record<string, string>
+
+/**
+ * 选出命令适用的模板，先找到的生效：
+ * 各层级中当前命令的模板（由近到远）→ 配置中的命令模板 → 内置命令模板 → 各层级的通用模板 → 配置中的通用模板。
+ * scopes 为频道、群组等层级设置的模板，由近到远排列。
+ */
+export function resolveCaptionTemplate(command: string | undefined, scopes: CaptionTemplates[], configured: CaptionTemplates, fallback: string) {
+  const candidates = [
+    ...command ? [...scopes.map(templates => templates[command]), configured[command], BUILTIN_CAPTION_TEMPLATES[command]] : [],
+    ...scopes.map(templates => templates['']),
+  ]
+  return candidates.find(Boolean) || fallback
+}
+
+export interface CaptionOptions {
+  /** 当前页，从 0 开始 */
+  page: number
+  /** {caption} 的最大长度 */
+  maxCaptionLength: number
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g
+
+// 返回模板中不认识的占位符
+export function validateCaptionTemplate(template: string) {
+  return [...template.matchAll(PLACEHOLDER)]
+    .map(match => match[1])
+    .filter(name => !Object.hasOwn(captionFields, name))
+}
+
+// 简介为 HTML，换行保留，其余标签去除
+const stripHtml = (html: string) => html
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#0?39;/g, '\'')
+  .replace(/&amp;/g, '&')
+  .trim()
+
+const truncate = (text: string, length: number) => {
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+export function getCaptionValues(illust: any, options: CaptionOptions): Record<string, string> {
+  const pageCount = illust.meta_pages?.length || 1
+  const tags: any[] = illust.tags || []
+  return {
+    title: illust.title || '',
+    page: pageCount > 1 ? ` [${options.page + 1}/${pageCount}]` : '',
+    pageCount: String(pageCount),
+    author: illust.user?.name || '未知',
+    authorId: illust.user?.id ? String(illust.user.id) : '',
+    id: String(illust.id),
+    tags: tags.map(tag => `#${tag.name}`).join(' '),
+    translatedTags: tags.filter(tag => tag.translated_name).map(tag => `#${tag.translated_name}`).join(' '),
+    bookmarks: String(illust.total_bookmarks ?? 0),
+    views: String(illust.total_view ?? 0),
+    date: illust.create_date ? illust.create_date.slice(0, 10) : '',
+    url: `https://www.pixiv.net/artworks/${illust.id}`,
+    caption: truncate(stripHtml(illust.caption || ''), options.maxCaptionLength),
+  }
+}
+
+/**
+ * 按模板生成插画说明。占位符全部为空的行会被省略，例如没有翻译的作品不显示翻译行；
+ * 不认识的占位符原样保留。
+ */
+export function renderCaption(template: string, illust: any, options: CaptionOptions) {
+  const values = getCaptionValues(illust, options)
+  return template
+    .split('\n')
+    .filter(line => {
+      const names = [...line.matchAll(PLACEHOLDER)].map(match => match[1]).filter(name => Object.hasOwn(values, name))
+      return names.length === 0 || names.some(name => values[name])
+    })
+    .map(line => line.replace(PLACEHOLDER, (text, name) => Object.hasOwn(values, name) ? values[name] : text))
+    .join('\n')
+    .trim()
+}
@@ -0,0 +1,115 @@
+/** 解析后的 cron 表达式，各字段为允许取值的集合 */
+export interface CronSchedule {
+  source: string
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  /** 日和星期都有限制时，二者满足其一即可（与标准 cron 一致） */
+  dayOrWeekday: boolean
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 },
+]
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+}
+
+/** 向后查找的最大天数，超过时认为表达式永远不会触发（例如 2 月 30 日） */
+const MAX_LOOKAHEAD_DAYS = 366 * 5
+
+// 解析单个字段，支持 *、数字、a-b、列表以及 /n 步长
+function parseField(input: string, spec: FieldSpec) {
+  const values = new Set<number>()
+  for (const part of input.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) {
+      throw new Error(`${spec.name}字段格式错误：${part}`)
+    }
+    const step = match[4] ? Number(match[4]) : 1
+    let start = spec.min
+    let end = spec.max
+    if (match[1] !== '*') {
+      start = Number(match[2])
+      end = match[3] ? Number(match[3]) : match[4] ? spec.max : start
+    }
+    if (step < 1 || start < spec.min || end > spec.max || start > end) {
+      throw new Error(`${spec.name}字段超出范围：${part}（${spec.min}-${spec.max}）`)
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+  return values
+}
+
+// 解析 5 字段的 cron 表达式：分 时 日 月 星期，星期中 0 和 7 都表示周日
+export function parseCron(expression: string): CronSchedule {
+  const source = expression.trim().replace(/\s+/g, ' ')
+  const fields = (ALIASES[source] ?? source).split(' ')
+  if (fields.length !== 5) {
+    throw new Error('cron 表达式需要 5 个字段：分 时 日 月 星期，例如 0 8 * * *')
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseField(field, FIELDS[index]))
+  if (weekdays.delete(7)) weekdays.add(0)
+
+  return {
+    source,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayOrWeekday: fields[2] !== '*' && fields[4] !== '*',
+  }
+}
+
+const matchesDay = (schedule: CronSchedule, date: Date) => {
+  if (!schedule.months.has(date.getMonth() + 1)) return false
+  const day = schedule.days.has(date.getDate())
+  const weekday = schedule.weekdays.has(date.getDay())
+  return schedule.dayOrWeekday ? day || weekday : day && weekday
+}
+
+// 计算严格晚于 after 的下一次触发时间（服务器本地时区），不会触发时返回 null
+export function getNextRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime())
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  for (let days = 0; days <= MAX_LOOKAHEAD_DAYS; days++) {
+    if (matchesDay(schedule, date)) {
+      for (let hour = date.getHours(); hour < 24; hour++) {
+        if (!schedule.hours.has(hour)) continue
+        const fromMinute = hour === date.getHours() ? date.getMinutes() : 0
+        for (let minute = fromMinute; minute < 60; minute++) {
+          if (schedule.minutes.has(minute)) {
+            const result = new Date(date.getTime())
+            result.setHours(hour, minute, 0, 0)
+            return result
+          }
+        }
+      }
+    }
+    date.setDate(date.getDate() + 1)
+    date.setHours(0, 0, 0, 0)
+  }
+  return null
+}
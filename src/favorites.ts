@@ -0,0 +1,144 @@
+/** 导出和导入收藏时的一条记录 */
+export interface FavoriteRecord {
+  illustId: number
+  /** 收藏夹名称，空字符串为默认收藏夹 */
+  folder: string
+  note: string
+  createdAt?: Date
+}
+
+export type FavoriteFormat = 'json' | 'csv'
+
+export const favoriteFormats: FavoriteFormat[] = ['json', 'csv']
+
+export const DEFAULT_FOLDER = '默认'
+export const MAX_FOLDER_LENGTH = 32
+export const MAX_NOTE_LENGTH = 200
+
+const CSV_COLUMNS = ['illustId', 'folder', 'note', 'createdAt'] as const
+
+// 规范化收藏夹名称，「默认」对应空字符串，名称无效时抛出错误
+export function parseFolder(input: string | undefined) {
+  const folder = (input ?? '').trim()
+  if (folder.length > MAX_FOLDER_LENGTH) {
+    throw new Error(`收藏夹名称不能超过 ${MAX_FOLDER_LENGTH} 个字符`)
+  }
+  return folder === DEFAULT_FOLDER ? '' : folder
+}
+
+export function parseNote(input: string | undefined) {
+  const note = (input ?? '').trim()
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new Error(`备注不能超过 ${MAX_NOTE_LENGTH} 个字符`)
+  }
+  return note
+}
+
+export const folderLabel = (folder: string) => folder || DEFAULT_FOLDER
+
+const escapeCsv = (value: string) => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// 解析 CSV，支持双引号包裹的字段以及字段内的逗号、引号和换行
+function parseCsv(text: string) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  rows.push(row)
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+export function serializeFavorites(records: FavoriteRecord[], format: FavoriteFormat) {
+  if (format === 'csv') {
+    const lines = records.map(record => [
+      String(record.illustId),
+      escapeCsv(record.folder),
+      escapeCsv(record.note),
+      record.createdAt ? record.createdAt.toISOString() : '',
+    ].join(','))
+    return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+  }
+  return JSON.stringify(records.map(record => ({
+    illustId: record.illustId,
+    folder: record.folder,
+    note: record.note,
+    createdAt: record.createdAt?.toISOString(),
+  })), null, 2)
+}
+
+const toRecord = (input: any, line: string): FavoriteRecord => {
+  const item = typeof input === 'object' && input !== null ? input : { illustId: input }
+  const illustId = Number(item.illustId ?? item.id)
+  if (!Number.isInteger(illustId) || illustId <= 0) {
+    throw new Error(`${line}的插画 ID 无效：${item.illustId ?? item.id ?? ''}`)
+  }
+  const createdAt = item.createdAt ? new Date(item.createdAt) : undefined
+  return {
+    illustId,
+    folder: parseFolder(item.folder == null ? '' : String(item.folder)),
+    note: parseNote(item.note == null ? '' : String(item.note)),
+    createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : undefined,
+  }
+}
+
+/**
+ * 解析导出的收藏数据。JSON 为记录数组（也可以是插画 ID 数组），
+ * CSV 的首行为表头时按列名读取，否则按 illustId,folder,note,createdAt 的顺序读取。
+ */
+export function parseFavorites(text: string): FavoriteRecord[] {
+  const content = text.replace(/^\uFEFF/, '').trim()
+  if (!content) return []
+
+  if (content.startsWith('[') || content.startsWith('{')) {
+    let data: any
+    try {
+      data = JSON.parse(content)
+    } catch (error: any) {
+      throw new Error(`JSON 格式错误：${error.message}`)
+    }
+    const items = Array.isArray(data) ? data : data.favorites
+    if (!Array.isArray(items)) {
+      throw new Error('JSON 数据应为收藏记录的数组')
+    }
+    return items.map((item, index) => toRecord(item, `第 ${index + 1} 条记录`))
+  }
+
+  const rows = parseCsv(content)
+  const header = rows[0].map(cell => cell.trim())
+  const hasHeader = header.includes('illustId')
+  const columns = hasHeader ? header : [...CSV_COLUMNS]
+  return rows.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const item = Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim()]))
+    return toRecord(item, `第 ${index + (hasHeader ? 2 : 1)} 行`)
+  })
+}
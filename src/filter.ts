@@ -0,0 +1,191 @@
+import { Schema } from 'koishi'
+
+/** 标签匹配方式 */
+export type TagMatchMode = 'exact' | 'prefix' | 'regex'
+
+/** 标签规则，匹配标签原文和翻译，不区分大小写和全角半角 */
+export interface TagRule {
+  mode: TagMatchMode
+  pattern: string
+}
+
+export const TagRule: Schema<TagRule> = Schema.object({
+  mode: Schema.union([
+    Schema.const('exact').description('完全一致'),
+    Schema.const('prefix').description('前缀'),
+    Schema.const('regex').description('正则'),
+  ]).default('exact').description('匹配方式'),
+  pattern: Schema.string().required().description('标签或正则表达式'),
+})
+
+/** 作品类型 */
+export type IllustType = 'illust' | 'manga' | 'ugoira'
+
+/** 可配置的过滤规则 */
+export interface FilterRules {
+  /** 命中任意一条即过滤 */
+  blockTags: TagRule[]
+  /** 非空时，作品至少需要命中其中一条 */
+  allowTags: TagRule[]
+  /** 允许的最高 sanity_level，0 表示不限制 */
+  maxSanityLevel: number
+  /** 允许的作品类型 */
+  illustTypes: IllustType[]
+  /** 最低收藏数 */
+  minBookmarks: number
+}
+
+/** 由内容策略决定的开关 */
+export interface FilterPolicy {
+  allowR18: boolean
+  allowR18G: boolean
+  allowAI: boolean
+}
+
+/** 返回过滤原因，空数组表示作品可以展示 */
+export type IllustFilter = (illust: any, policy: FilterPolicy) => string[]
+
+type TagMatcher = (tag: string) => boolean
+
+const R18_TAGS = ['r-18', 'r18']
+const R18G_TAGS = ['r-18g', 'r18g']
+const AI_TAGS = ['ai', 'ai生成', '生成ai', 'aiイラスト', 'ai-generated', 'aiart', 'novelai', 'stablediffusion']
+
+/** illust_ai_type：0 未知，1 非 AI，2 AI 生成 */
+const AI_TYPE_GENERATED = 2
+
+// 统一为半角小写，「Ｒ－１８」与「r-18」视为同一标签
+export function normalizeTag(tag: string) {
+  return tag.normalize('NFKC').toLowerCase()
+}
+
+export function compileTagRule(rule: TagRule): TagMatcher {
+  const pattern = normalizeTag(rule.pattern)
+  if (rule.mode === 'prefix') {
+    return tag => tag.startsWith(pattern)
+  }
+  if (rule.mode === 'regex') {
+    const regexp = new RegExp(rule.pattern.normalize('NFKC'), 'i')
+    return tag => regexp.test(tag)
+  }
+  return tag => tag === pattern
+}
+
+export function describeTagRule(rule: TagRule) {
+  return `${rule.mode}:${rule.pattern}`
+}
+
+// 作品的全部标签（原文和翻译），统一为半角小写
+export function getTagNames(illust: any): string[] {
+  const names: string[] = []
+  for (const tag of illust.tags || []) {
+    if (tag.name) names.push(normalizeTag(tag.name))
+    if (tag.translated_name) names.push(normalizeTag(tag.translated_name))
+  }
+  return names
+}
+
+/**
+ * 根据规则创建过滤器，规则只编译一次。
+ * 无法编译的规则（例如错误的正则）会被跳过并通过 onInvalid 报告。
+ */
+export function createIllustFilter(rules: FilterRules, onInvalid?: (rule: TagRule, error: Error) => void): IllustFilter {
+  const compile = (list: TagRule[]) => list.flatMap((rule) => {
+    try {
+      return [{ rule, match: compileTagRule(rule) }]
+    } catch (error: any) {
+      onInvalid?.(rule, error)
+      return []
+    }
+  })
+  const blockTags = compile(rules.blockTags)
+  const allowTags = compile(rules.allowTags)
+
+  return (illust, policy) => {
+    const reasons: string[] = []
+    const tagNames = getTagNames(illust)
+    const findTag = (candidates: string[]) => tagNames.find(name => candidates.includes(name))
+    const xRestrict = illust.x_restrict ?? 0
+
+    // x_restrict：1 为 R18，2 为 R18-G；标签作为补充判断
+    const r18Tag = findTag(R18_TAGS)
+    if (!policy.allowR18 && xRestrict >= 1) {
+      reasons.push(`R18 作品 (x_restrict=${xRestrict})`)
+    } else if (!policy.allowR18 && r18Tag) {
+      reasons.push(`R18 标签「${r18Tag}」`)
+    }
+    const r18gTag = findTag(R18G_TAGS)
+    if (!policy.allowR18G && xRestrict >= 2) {
+      reasons.push('R18-G 作品 (x_restrict=2)')
+    } else if (!policy.allowR18G && r18gTag) {
+      reasons.push(`R18-G 标签「${r18gTag}」`)
+    }
+
+    // illust_ai_type 为 Pixiv 官方标记，只有未知时才参考标签
+    if (!policy.allowAI) {
+      const aiTag = findTag(AI_TAGS)
+      if (illust.illust_ai_type === AI_TYPE_GENERATED) {
+        reasons.push('AI 生成作品 (illust_ai_type=2)')
+      } else if (!illust.illust_ai_type && aiTag) {
+        reasons.push(`AI 标签「${aiTag}」`)
+      }
+    }
+
+    for (const { rule, match } of blockTags) {
+      const tag = tagNames.find(match)
+      if (tag) reasons.push(`命中屏蔽标签「${tag}」(${describeTagRule(rule)})`)
+    }
+    if (allowTags.length && !allowTags.some(({ match }) => tagNames.some(match))) {
+      reasons.push('未命中任何允许标签')
+    }
+
+    if (rules.maxSanityLevel && illust.sanity_level > rules.maxSanityLevel) {
+      reasons.push(`sanity_level ${illust.sanity_level} 超过上限 ${rules.maxSanityLevel}`)
+    }
+    if (illust.type && !rules.illustTypes.includes(illust.type)) {
+      reasons.push(`作品类型 ${illust.type} 不在允许范围内`)
+    }
+    if (rules.minBookmarks && (illust.total_bookmarks ?? 0) < rules.minBookmarks) {
+      reasons.push(`收藏数 ${illust.total_bookmarks ?? 0} 低于 ${rules.minBookmarks}`)
+    }
+
+    return reasons
+  }
+}
+
+/** 作品方向 */
+export type Orientation = 'portrait' | 'landscape' | 'square'
+
+export const orientations: Orientation[] = ['portrait', 'landscape', 'square']
+
+// 按宽高比判断作品方向，宽高相差 10% 以内视为方形
+export function getOrientation(illust: any): Orientation {
+  const ratio = illust.width / illust.height
+  if (Math.abs(ratio - 1) <= 0.1) return 'square'
+  return ratio > 1 ? 'landscape' : 'portrait'
+}
+
+/** 单次搜索附带的条件，Pixiv API 不支持的部分在客户端逐页应用 */
+export interface SearchFilters {
+  minBookmarks?: number
+  minViews?: number
+  minPages?: number
+  maxPages?: number
+  orientation?: Orientation
+  /** 排除的标签，与标签原文或翻译完全一致时排除，不区分大小写和全角半角 */
+  excludeTags?: string[]
+}
+
+export function matchSearchFilters(illust: any, filters: SearchFilters = {}) {
+  const pageCount = illust.page_count || illust.meta_pages?.length || 1
+  if (filters.minBookmarks && (illust.total_bookmarks ?? 0) < filters.minBookmarks) return false
+  if (filters.minViews && (illust.total_view ?? 0) < filters.minViews) return false
+  if (filters.minPages && pageCount < filters.minPages) return false
+  if (filters.maxPages && pageCount > filters.maxPages) return false
+  if (filters.orientation && getOrientation(illust) !== filters.orientation) return false
+  if (filters.excludeTags?.length) {
+    const excluded = filters.excludeTags.map(normalizeTag)
+    if (getTagNames(illust).some(name => excluded.includes(name))) return false
+  }
+  return true
+}
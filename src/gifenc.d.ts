@@ -0,0 +1,24 @@
+declare module 'gifenc' {
+  export type Palette = number[][]
+
+  export interface FrameOptions {
+    palette?: Palette
+    delay?: number
+    repeat?: number
+    transparent?: boolean
+    transparentIndex?: number
+    dispose?: number
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: FrameOptions): void
+    finish(): void
+    bytes(): Uint8Array
+    /** 已写入数据的视图，不复制 */
+    bytesView(): Uint8Array
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean, initialCapacity?: number }): Encoder
+  export function quantize(rgba: Uint8Array | Uint8ClampedArray, maxColors: number, options?: Record<string, any>): Palette
+  export function applyPalette(rgba: Uint8Array | Uint8ClampedArray, palette: Palette, format?: string): Uint8Array
+}
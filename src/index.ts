@@ -1,10 +1,70 @@
-import { Context, Schema, h } from 'koishi'
+import { Context, RuntimeError, Schema, Time, Universal, h } from 'koishi'
 import { Pixiv } from '@book000/pixivts'
-import { SearchSort, RankingMode, SearchTarget } from '@book000/pixivts/dist/options'
+import { BookmarkRestrict, SearchSort, RankingMode, SearchTarget } from '@book000/pixivts/dist/options'
 import axios from 'axios'
+import { resolve } from 'node:path'
+import { createImageCache } from './cache'
+import { encodeUgoiraGif } from './ugoira'
+import { DIRECT, IMAGE_PROXY_PATTERN, PROXY_PATTERN, PXIMG_HOST, createProxyAgents, maskProxy, rewriteImageUrl } from './network'
+import { IllustType, Orientation, SearchFilters, TagRule, createIllustFilter, matchSearchFilters, orientations } from './filter'
+import { createScheduler } from './scheduler'
+import { getNextRun, parseCron } from './cron'
+import { ReverseSearchProvider, createReverseSearchProvider, resolveReverseSearch, reverseSearchProviders } from './reverse'
+import { DEFAULT_CAPTION_TEMPLATE, captionFields, renderCaption, resolveCaptionTemplate, validateCaptionTemplate } from './caption'
+import { FavoriteFormat, FavoriteRecord, favoriteFormats, folderLabel, parseFavorites, parseFolder, parseNote, serializeFavorites } from './favorites'
 
 export const name = 'morfonicapixivbot'
 
+export const inject = ['database']
+
+/** 分页状态的共享范围 */
+type SessionScope = 'user' | 'channel' | 'user-channel'
+
+const sessionScopes: SessionScope[] = ['user', 'channel', 'user-channel']
+
+/** 作者作品的类型 */
+type WorkType = 'illust' | 'manga'
+
+const workTypes: WorkType[] = ['illust', 'manga']
+
+/** Pixiv 书签的公开范围 */
+type BookmarkVisibility = 'public' | 'private'
+
+/** 限流的命令类别 */
+type RateLimitCategory = 'search' | 'ranking' | 'detail' | 'paging'
+
+const rateLimitCategories: Record<RateLimitCategory, string> = {
+  search: '搜索',
+  ranking: '排行榜',
+  detail: '详情',
+  paging: '翻页',
+}
+
+/** 单个命令类别的冷却与配额，0 表示不限制 */
+interface RateLimitRule {
+  userCooldown: number
+  channelCooldown: number
+  userQuota: number
+  channelQuota: number
+}
+
+const RateLimitRule: Schema<RateLimitRule> = Schema.object({
+  userCooldown: Schema.natural()
+    .role('ms')
+    .default(5 * Time.second)
+    .description('每个用户的冷却时间'),
+  channelCooldown: Schema.natural()
+    .role('ms')
+    .default(0)
+    .description('每个频道的冷却时间'),
+  userQuota: Schema.natural()
+    .default(0)
+    .description('每个用户在统计窗口内的次数上限，0 表示不限制'),
+  channelQuota: Schema.natural()
+    .default(0)
+    .description('每个频道在统计窗口内的次数上限，0 表示不限制'),
+})
+
 export interface Config {
   /** Pixiv OAuth Refresh Token */
   refreshToken: string
@@ -12,8 +72,112 @@ export interface Config {
   searchResultCount: number
   /** 是否包含 R18 内容 */
   enableR18: boolean
+  /** 是否包含 R18-G 内容 */
+  enableR18G: boolean
   /** 是否包含 AI 生成内容 */
   enableAI: boolean
+  /** 屏蔽标签规则 */
+  blockTags: TagRule[]
+  /** 允许标签规则，非空时作品至少需要命中一条 */
+  allowTags: TagRule[]
+  /** 允许的最高 sanity_level，0 表示不限制 */
+  maxSanityLevel: number
+  /** 允许的作品类型 */
+  illustTypes: IllustType[]
+  /** 最低收藏数 */
+  minBookmarks: number
+  /** 是否启用本地图片缓存 */
+  imageCache: boolean
+  /** 图片缓存目录 */
+  imageCacheDir: string
+  /** 图片缓存大小上限（MB） */
+  imageCacheSize: number
+  /** 列表中多页作品自动发送的页数 */
+  multiPageCount: number
+  /** 发送多页时是否合并为一条转发消息 */
+  multiPageForward: boolean
+  /** 单次最多发送的页数 */
+  maxPageCount: number
+  /** 是否将动图合成为 GIF */
+  ugoira: boolean
+  /** 动图最多保留的帧数 */
+  ugoiraMaxFrames: number
+  /** 动图大小上限（MB） */
+  ugoiraMaxSize: number
+  /** 各类命令的冷却与配额 */
+  rateLimits: Record<RateLimitCategory, RateLimitRule>
+  /** 配额的滚动统计窗口（毫秒） */
+  quotaWindow: number
+  /** 不受限流影响的用户 */
+  rateLimitExempt: string[]
+  /** 同时进行的 Pixiv 请求数上限 */
+  requestConcurrency: number
+  /** 请求失败后的最大重试次数 */
+  requestRetries: number
+  /** 第一次重试前的等待时间（毫秒） */
+  retryBaseDelay: number
+  /** 重试等待时间上限（毫秒） */
+  retryMaxDelay: number
+  /** 订阅排行榜时默认的推送时间 */
+  subscriptionCron: string
+  /** 每次推送的图片数量上限 */
+  subscriptionMaxCount: number
+  /** 检查关注作者新作品的间隔（毫秒） */
+  followPollInterval: number
+  /** 每次检查的作者数量 */
+  followBatchSize: number
+  /** 检查关键词订阅的间隔（毫秒） */
+  watchPollInterval: number
+  /** 每次检查的关键词订阅数量 */
+  watchBatchSize: number
+  /** 收藏数未达标的作品在发布后多长时间内继续检查（毫秒） */
+  watchPendingTTL: number
+  /** 随机命令采样的结果页数 */
+  randomPages: number
+  /** 展示历史的保留时间（毫秒） */
+  historyTTL: number
+  /** 默认跳过频道内已经展示过的作品 */
+  skipShown: boolean
+  /** 以图搜图使用的服务，通过代码加载插件时也可以直接传入服务的实现 */
+  reverseSearchProvider: string | ReverseSearchProvider
+  /** SauceNAO API Key */
+  sauceNaoApiKey: string
+  /** 以图搜图结果的最低相似度（%） */
+  reverseSearchMinSimilarity: number
+  /** 后台刷新收藏快照的间隔（毫秒） */
+  favoriteRefreshInterval: number
+  /** 每次刷新的收藏作品数量 */
+  favoriteRefreshBatchSize: number
+  /** 收藏快照的有效时间（毫秒） */
+  favoriteSnapshotTTL: number
+  /** 将收藏同步为 Bot 账号的 Pixiv 书签 */
+  bookmarkSync: 'off' | BookmarkVisibility
+  /** 插画说明的全局模板 */
+  captionTemplate: string
+  /** 按命令名覆盖的说明模板 */
+  captionTemplates: Record<string, string>
+  /** 说明中作品简介的最大长度 */
+  captionMaxLength: number
+  /** 管理命令所需的权限等级 */
+  adminAuthority: number
+  /** Pixiv API 使用的代理 */
+  apiProxy: string
+  /** 图片下载使用的代理 */
+  imageProxy: string
+  /** 替换 i.pximg.net 的图片反向代理 */
+  imageMirror: string
+  /** API 请求超时（毫秒） */
+  apiTimeout: number
+  /** 图片下载超时（毫秒） */
+  imageTimeout: number
+  /** 分页状态和最近插画的共享范围 */
+  sessionScope: SessionScope
+  /** 分页状态的保留时间（毫秒） */
+  stateTTL: number
+  /** 清理过期分页状态的间隔（毫秒） */
+  stateCleanupInterval: number
+  /** 分页状态内存缓存的有效时间（毫秒） */
+  stateCacheTTL: number
 }
 
 export const Config: Schema<Config> = Schema.object({
@@ -29,29 +193,420 @@ export const Config: Schema<Config> = Schema.object({
   enableR18: Schema.boolean()
     .default(false)
     .description('是否包含 R18 内容'),
+  enableR18G: Schema.boolean()
+    .default(false)
+    .description('是否包含 R18-G 内容（需同时启用 R18）'),
   enableAI: Schema.boolean()
     .default(false)
     .description('是否包含 AI 生成内容'),
+  blockTags: Schema.array(TagRule)
+    .role('table')
+    .default([])
+    .description('屏蔽标签规则，命中任意一条的作品会被过滤'),
+  allowTags: Schema.array(TagRule)
+    .role('table')
+    .default([])
+    .description('允许标签规则，非空时作品至少需要命中其中一条'),
+  maxSanityLevel: Schema.natural()
+    .default(0)
+    .description('允许的最高 sanity_level（Pixiv 的内容敏感度，常见值 2/4/6），0 表示不限制'),
+  illustTypes: Schema.array(Schema.union([
+    Schema.const('illust').description('插画'),
+    Schema.const('manga').description('漫画'),
+    Schema.const('ugoira').description('动图'),
+  ]))
+    .role('checkbox')
+    .default(['illust', 'manga', 'ugoira'])
+    .description('允许的作品类型'),
+  minBookmarks: Schema.natural()
+    .default(0)
+    .description('最低收藏数，低于该值的作品会被过滤'),
+  imageCache: Schema.boolean()
+    .default(true)
+    .description('是否启用本地图片缓存，相同图片不再重复下载'),
+  imageCacheDir: Schema.string()
+    .default('data/pixiv/images')
+    .description('图片缓存目录，相对于 Koishi 实例目录'),
+  imageCacheSize: Schema.natural()
+    .default(512)
+    .description('图片缓存大小上限（MB），超出后淘汰最久未使用的图片'),
+  multiPageCount: Schema.natural()
+    .default(1)
+    .min(1)
+    .description('搜索、排行榜等列表中多页作品自动发送的页数'),
+  multiPageForward: Schema.boolean()
+    .default(true)
+    .description('一次发送多页时是否合并为一条转发消息'),
+  maxPageCount: Schema.natural()
+    .default(20)
+    .min(1)
+    .description('单次最多发送的页数，防止长篇漫画刷屏'),
+  ugoira: Schema.boolean()
+    .default(true)
+    .description('是否将动图（ugoira）合成为 GIF 发送，关闭或合成失败时发送第一帧'),
+  ugoiraMaxFrames: Schema.natural()
+    .default(60)
+    .min(1)
+    .description('动图最多保留的帧数，超出时均匀抽帧'),
+  ugoiraMaxSize: Schema.natural()
+    .default(8)
+    .min(1)
+    .description('合成动图的大小上限（MB），超出时发送第一帧'),
+  rateLimits: Schema.object({
+    search: RateLimitRule.description('搜索类命令：搜图、搜作者、推荐插画、查询最爱'),
+    ranking: RateLimitRule.description('排行榜命令'),
+    detail: RateLimitRule.description('详情类命令：插画详情、查看分页'),
+    paging: RateLimitRule.description('下一页'),
+  }).description('各类命令的冷却时间和配额'),
+  quotaWindow: Schema.natural()
+    .role('ms')
+    .default(Time.day)
+    .description('配额的滚动统计窗口'),
+  rateLimitExempt: Schema.array(String)
+    .default([])
+    .description('不受冷却和配额限制的用户，填写用户 ID 或 平台:用户 ID'),
+  requestConcurrency: Schema.natural()
+    .min(1)
+    .default(4)
+    .description('同时进行的 Pixiv 请求（API 和图片下载）数量上限，超出的请求排队等待'),
+  requestRetries: Schema.natural()
+    .default(3)
+    .description('请求遇到 429、5xx 或网络错误时的最大重试次数'),
+  retryBaseDelay: Schema.natural()
+    .role('ms')
+    .default(Time.second)
+    .description('第一次重试前的等待时间，之后每次翻倍'),
+  retryMaxDelay: Schema.natural()
+    .role('ms')
+    .default(30 * Time.second)
+    .description('单次重试等待时间的上限'),
+  subscriptionCron: Schema.string()
+    .default('0 8 * * *')
+    .description('订阅排行榜时默认的推送时间，cron 表达式（分 时 日 月 星期），按服务器时区计算'),
+  subscriptionMaxCount: Schema.natural()
+    .min(1)
+    .default(20)
+    .description('每次订阅或关注推送的图片数量上限'),
+  followPollInterval: Schema.natural()
+    .role('ms')
+    .default(5 * Time.minute)
+    .description('检查关注作者新作品的间隔'),
+  followBatchSize: Schema.natural()
+    .min(1)
+    .default(10)
+    .description('每次检查的作者数量，关注的作者较多时按上次检查时间轮流检查'),
+  watchPollInterval: Schema.natural()
+    .role('ms')
+    .default(10 * Time.minute)
+    .description('检查关键词订阅新作品的间隔'),
+  watchBatchSize: Schema.natural()
+    .min(1)
+    .default(5)
+    .description('每次检查的关键词订阅数量，按上次检查时间轮流检查'),
+  watchPendingTTL: Schema.natural()
+    .role('ms')
+    .default(3 * Time.day)
+    .description('设置了最低收藏数时，未达标的作品在发布后多长时间内继续检查收藏数'),
+  randomPages: Schema.natural()
+    .min(1)
+    .max(10)
+    .default(3)
+    .description('随机命令从多少页结果中抽取作品'),
+  historyTTL: Schema.natural()
+    .role('ms')
+    .default(7 * Time.day)
+    .description('展示历史的保留时间，超时后自动清理'),
+  skipShown: Schema.boolean()
+    .default(false)
+    .description('列表类命令默认跳过当前频道已经展示过的作品，命令可通过 -u / --no-unseen 覆盖'),
+  reverseSearchProvider: Schema.union([
+    ...Object.keys(reverseSearchProviders).map(name => Schema.const(name)),
+    // 通过代码加载插件时可以传入自定义的服务，控制台中不显示
+    Schema.any().hidden(),
+  ])
+    .default('saucenao')
+    .description('以图搜图使用的服务'),
+  sauceNaoApiKey: Schema.string()
+    .role('secret')
+    .default('')
+    .description('SauceNAO API Key，可在 https://saucenao.com/user.php 获取'),
+  reverseSearchMinSimilarity: Schema.number()
+    .min(0)
+    .max(100)
+    .default(70)
+    .description('以图搜图结果的最低相似度（%）'),
+  favoriteRefreshInterval: Schema.natural()
+    .role('ms')
+    .default(Time.hour)
+    .description('后台刷新收藏作品信息、检查作品是否已被删除的间隔'),
+  favoriteRefreshBatchSize: Schema.natural()
+    .default(20)
+    .description('每次后台刷新的收藏作品数量，设为 0 时只在查看收藏时刷新'),
+  favoriteSnapshotTTL: Schema.natural()
+    .role('ms')
+    .default(30 * Time.day)
+    .description('收藏作品信息的有效时间，超过后由后台刷新'),
+  bookmarkSync: Schema.union([
+    Schema.const('off').description('不同步'),
+    Schema.const('public').description('同步为公开书签'),
+    Schema.const('private').description('同步为非公开书签'),
+  ])
+    .default('off')
+    .description('收藏时同步添加 Bot 账号的 Pixiv 书签，取消收藏时删除由同步添加的书签'),
+  captionTemplate: Schema.string()
+    .role('textarea')
+    .default(DEFAULT_CAPTION_TEMPLATE)
+    .description('发送插画时附带的说明模板，可用占位符：' + Object.keys(captionFields).map(name => `{${name}}`).join(' ')),
+  captionTemplates: Schema.dict(Schema.string().role('textarea'))
+    .default({})
+    .description('按命令名覆盖说明模板，键为命令名，例如 插画详情；插画详情未设置时使用内置的详细模板'),
+  captionMaxLength: Schema.natural()
+    .default(100)
+    .description('说明中 {caption} 作品简介的最大长度'),
+  adminAuthority: Schema.natural()
+    .default(3)
+    .description('内容策略等管理命令所需的权限等级'),
+  apiProxy: Schema.string()
+    .pattern(PROXY_PATTERN)
+    .default('')
+    .description('Pixiv API 和 OAuth 使用的代理，支持 http://、https://、socks5:// 等，留空时沿用 HTTPS_PROXY 等环境变量'),
+  imageProxy: Schema.string()
+    .pattern(IMAGE_PROXY_PATTERN)
+    .default('')
+    .description('图片下载使用的代理，留空时与 apiProxy 相同，填写 direct 表示直连'),
+  imageMirror: Schema.string()
+    .default('')
+    .description('图片反向代理地址，用于替换 i.pximg.net，例如 i.pixiv.re 或 https://pximg.example.com/prefix'),
+  apiTimeout: Schema.natural()
+    .role('ms')
+    .default(15 * Time.second)
+    .description('Pixiv API 请求超时'),
+  imageTimeout: Schema.natural()
+    .role('ms')
+    .default(30 * Time.second)
+    .description('图片下载超时'),
+  sessionScope: Schema.union([
+    Schema.const('user').description('按用户：每个用户独立'),
+    Schema.const('channel').description('按频道：群内所有成员共享'),
+    Schema.const('user-channel').description('按频道内的用户：同一用户在不同群中独立'),
+  ])
+    .default('user')
+    .description('下一页、收藏所用的分页状态和最近插画的共享范围，命令可通过 --scope 覆盖'),
+  stateTTL: Schema.natural()
+    .role('ms')
+    .default(Time.day)
+    .description('分页状态（下一页、收藏所用的最近插画）的保留时间，超时后自动清理'),
+  stateCleanupInterval: Schema.natural()
+    .role('ms')
+    .default(Time.hour)
+    .description('清理过期分页状态的间隔'),
+  stateCacheTTL: Schema.natural()
+    .role('ms')
+    .default(30 * Time.second)
+    .description('分页状态内存缓存的有效时间，多个实例共享数据库时应保持较短'),
 })
 
+type PixivClient = Awaited<ReturnType<typeof Pixiv.of>>
+
 interface SearchState {
-  type: 'search' | 'ranking' | 'recommended' | 'favorites'
+  type: 'search' | 'ranking' | 'recommended' | 'author' | 'favorites' | 'related' | 'bookmarks'
   keyword?: string
-  rankingMode?: RankingMode
+  rankingMode?: string
+  /** 历史排行榜的日期，格式为 YYYY-MM-DD */
+  rankingDate?: string
+  /** 排行榜从第几名之后开始 */
+  rankingOffset?: number
   searchTarget?: SearchTarget
   searchSort?: SearchSort
+  searchDuration?: string
   authorId?: number
+  authorType?: WorkType
+  /** 相似作品所基于的插画 ID */
+  relatedId?: number
   favoriteIds?: number[]
+  /** 浏览的 Bot 账号书签的公开范围 */
+  bookmarkRestrict?: BookmarkVisibility
+  /** 开始本次浏览的命令名，下一页按该命令选择说明模板 */
+  command?: string
   lastIllustId?: number
+  /** 展示最近一张插画的命令名，查看分页按该命令选择说明模板 */
+  lastIllustCommand?: string
+  /** 搜索的起止日期，格式为 YYYY-MM-DD */
+  startDate?: string
+  endDate?: string
+  /** 在客户端逐页应用的过滤条件 */
+  filters?: SearchFilters
+  /** 是否跳过当前频道已经展示过的作品 */
+  skipShown?: boolean
+  /** 第一页无法重新获取的来源（例如推荐）停留在第一页时，暂存其中尚未处理的原始结果 */
+  buffer?: any[]
+  /** 当前结果页中已经处理过的原始结果数 */
   offset: number
+  /** 下一次要读取的结果页地址，为 null 时表示来源的第一页 */
+  nextUrl: string | null
+  /** 是否还有未读取的结果 */
+  hasMore: boolean
+}
+
+/** 内容策略，群组/频道/私聊未设置的项继承全局配置 */
+interface ContentPolicy {
+  allowR18: boolean
+  allowR18G: boolean
+  allowAI: boolean
+  /** 每次返回的图片数量 */
+  maxResults: number
+}
+
+/** 内容策略表中的一行，值为 null 的项表示继承上一级 */
+interface ContentPolicyRow {
+  id: string
+  allowR18: boolean | null
+  allowR18G: boolean | null
+  allowAI: boolean | null
+  maxResults: number | null
+}
+
+/** 说明模板表中的一行，键为命令名，空字符串表示所有命令 */
+interface CaptionTemplateRow {
+  id: string
+  templates: Record<string, string>
+}
+
+/** 主动推送的目标：频道，或 channelId 为空时的用户私聊 */
+interface PushTarget {
+  platform: string
+  selfId: string
+  channelId: string
+  guildId: string
+  userId?: string
+}
+
+/** 排行榜定时推送订阅 */
+interface RankingSubscription extends PushTarget {
+  id: number
+  mode: string
+  cron: string
+  count: number
+  createdBy: string
+  createdAt: Date
+  lastRunAt: Date | null
+  nextRunAt: Date | null
+}
+
+/** 关注作者，userId 不为空时为个人关注，通过私聊推送 */
+interface ArtistFollow extends PushTarget {
+  id: number
+  authorId: number
+  authorName: string
+  userId: string
+  /** 已推送给该关注者的最新作品 ID，为 null 时表示尚未建立基线 */
+  lastIllustId: number | null
+  createdAt: Date
+}
+
+/** 关键词订阅，按最新发布排序轮询搜索结果 */
+interface SearchWatch extends PushTarget {
+  id: number
+  keyword: string
+  target: string
+  sort: string
+  minBookmarks: number
+  /** 已处理过的作品 ID，为 null 时表示尚未建立基线 */
+  seenIds: number[] | null
+  /** 收藏数暂未达标、之后继续检查的作品 ID */
+  pendingIds: number[] | null
+  checkedAt: Date | null
+  createdBy: string
+  createdAt: Date
+}
+
+/** 被关注作者的轮询进度 */
+interface FollowedArtist {
+  id: number
+  lastIllustId: number | null
+  checkedAt: Date | null
+}
+
+/** 收藏时保存的作品信息，作品被删除后仍然可以显示，同一作品的所有收藏共享 */
+interface FavoriteSnapshot {
+  title: string
+  authorId: number
+  authorName: string
+  /** 标签名和翻译后的标签名 */
+  tags: string[]
+  pageCount: number
+  xRestrict: number
+  aiType: number
+  thumbnailUrl: string
+  /** 最后一次获取作品详情的时间，为 null 时表示尚未获取 */
+  checkedAt: Date | null
+  /** 作品已被删除或设为非公开 */
+  unavailable: boolean
+}
+
+/** 用户的一条收藏，同一用户对同一作品只有一条 */
+interface Favorite extends FavoriteSnapshot {
+  id: number
+  platform: string
+  userId: string
+  illustId: number
+  /** 收藏夹名称，空字符串为默认收藏夹 */
+  folder: string
+  note: string
+  createdAt: Date
+}
+
+/** 频道（或私聊）的展示历史 */
+interface ShownHistory {
+  scope: string
+  illustId: number
+  title: string
+  authorName: string
+  shownAt: Date
+}
+
+/** 排行榜类型，restrict 为需要内容策略允许的等级 */
+interface RankingInfo {
+  name: string
+  cmd?: string
+  alias: string
+  mode: string
+  desc: string
+  restrict?: 'r18' | 'r18g'
+}
+
+interface ResultPage {
+  illusts: any[]
   nextUrl: string | null
+  /** 需要附加在回复中的提示，例如已失效的收藏 */
+  notices?: string[]
+}
+
+/**
+ * 结果来源：列表类命令（搜图、排行榜、推荐、收藏等）的统一抽象。
+ * 来源只负责获取原始结果页，过滤、分页和状态保存由公共流程处理。
+ */
+interface ResultSource {
+  /** 获取第一页结果 */
+  first: (state: SearchState) => Promise<ResultPage>
+  /** 获取 nextUrl 指向的后续结果页，默认直接请求 Pixiv 返回的 next_url */
+  next?: (state: SearchState, nextUrl: string) => Promise<ResultPage>
+  /** 第一页每次请求的结果都不同，停留在第一页时暂存剩余结果，而不是重新请求 */
+  volatile?: boolean
+  /** 回复中对结果的称呼，例如「热门图片」 */
+  noun: string
+  /** 第一页没有任何结果时的提示 */
+  emptyText: string
 }
 
+/** 单次请求最多翻阅的结果页数，避免过滤掉大量结果时无限请求 */
+const MAX_PAGES_PER_REQUEST = 5
+
 export function apply(ctx: Context, config: Config) {
-  // 存储用户搜索状态的 Map
-  const searchStates = new Map<string, SearchState>()
+  // 分页状态的内存缓存，数据库中的 pixiv_search_states 表为持久化存储
+  const stateCache = new Map<string, { state: SearchState, cachedAt: number }>()
 
-  // 定义收藏表
+  // 旧版收藏表，没有唯一索引，仅用于迁移到 pixiv_favorite_items
   // @ts-expect-error - pixiv_favorites is a custom table
   ctx.model.extend('pixiv_favorites', {
     id: { type: 'integer', autoIncrement: true, primary: true },
@@ -63,8 +618,174 @@ export function apply(ctx: Context, config: Config) {
     primary: ['id'],
   })
 
-  // 获取 sessionId
-  const getSessionId = (session: any) => {
+  // 定义收藏表，(platform, userId, illustId) 上的唯一索引保证同一作品不会重复收藏
+  // title 等字段为作品信息的快照，列表模式和按标签、作者筛选不需要请求 Pixiv
+  // @ts-expect-error - pixiv_favorite_items is a custom table
+  ctx.model.extend('pixiv_favorite_items', {
+    id: { type: 'unsigned', autoInc: true },
+    platform: { type: 'string' },
+    userId: { type: 'string' },
+    illustId: { type: 'unsigned' },
+    folder: { type: 'string', length: 64, initial: '' },
+    note: { type: 'text', initial: '' },
+    createdAt: { type: 'timestamp' },
+    title: { type: 'string', initial: '' },
+    authorId: { type: 'unsigned', initial: 0 },
+    authorName: { type: 'string', initial: '' },
+    tags: { type: 'json', initial: [] },
+    pageCount: { type: 'unsigned', initial: 0 },
+    xRestrict: { type: 'unsigned', initial: 0 },
+    aiType: { type: 'unsigned', initial: 0 },
+    thumbnailUrl: { type: 'string', length: 512, initial: '' },
+    checkedAt: { type: 'timestamp', nullable: true },
+    unavailable: { type: 'boolean', initial: false },
+  }, {
+    primary: 'id',
+    autoInc: true,
+    unique: [['platform', 'userId', 'illustId']],
+  })
+
+  // 定义同步书签表，记录由收藏同步添加到 Bot 账号的书签，取消收藏时只删除这些书签
+  // @ts-expect-error - pixiv_synced_bookmarks is a custom table
+  ctx.model.extend('pixiv_synced_bookmarks', {
+    id: { type: 'unsigned' },
+    restrict: { type: 'string' },
+    createdAt: { type: 'timestamp' },
+  }, {
+    primary: 'id',
+  })
+
+  // 定义说明模板表，id 与内容策略相同；templates 的键为命令名，空字符串表示所有命令
+  // @ts-expect-error - pixiv_caption_templates is a custom table
+  ctx.model.extend('pixiv_caption_templates', {
+    id: { type: 'string', length: 255 },
+    templates: { type: 'json' },
+  }, {
+    primary: 'id',
+  })
+
+  // 定义分页状态表，以 sessionId 为主键
+  // @ts-expect-error - pixiv_search_states is a custom table
+  ctx.model.extend('pixiv_search_states', {
+    id: { type: 'string', length: 255 },
+    state: { type: 'json' },
+    updatedAt: { type: 'timestamp' },
+  }, {
+    primary: 'id',
+  })
+
+  // 定义内容策略表，id 形如 platform:guild:xxx / platform:channel:xxx / platform:private:xxx
+  // @ts-expect-error - pixiv_content_policies is a custom table
+  ctx.model.extend('pixiv_content_policies', {
+    id: { type: 'string', length: 255 },
+    allowR18: { type: 'boolean', nullable: true },
+    allowR18G: { type: 'boolean', nullable: true },
+    allowAI: { type: 'boolean', nullable: true },
+    maxResults: { type: 'unsigned', nullable: true },
+  }, {
+    primary: 'id',
+  })
+
+  // 定义限流记录表，hits 为统计窗口内的请求时间戳
+  // @ts-expect-error - pixiv_rate_limits is a custom table
+  ctx.model.extend('pixiv_rate_limits', {
+    id: { type: 'string', length: 255 },
+    hits: { type: 'json' },
+    updatedAt: { type: 'timestamp' },
+  }, {
+    primary: 'id',
+  })
+
+  // 定义排行榜订阅表，nextRunAt 为下一次推送时间
+  // @ts-expect-error - pixiv_subscriptions is a custom table
+  ctx.model.extend('pixiv_subscriptions', {
+    id: { type: 'unsigned', autoInc: true },
+    platform: { type: 'string' },
+    selfId: { type: 'string' },
+    channelId: { type: 'string' },
+    guildId: { type: 'string' },
+    mode: { type: 'string' },
+    cron: { type: 'string' },
+    count: { type: 'unsigned' },
+    createdBy: { type: 'string' },
+    createdAt: { type: 'timestamp' },
+    lastRunAt: { type: 'timestamp', nullable: true },
+    nextRunAt: { type: 'timestamp', nullable: true },
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 定义关注表，每行为一个频道或用户对一位作者的关注
+  // @ts-expect-error - pixiv_follows is a custom table
+  ctx.model.extend('pixiv_follows', {
+    id: { type: 'unsigned', autoInc: true },
+    authorId: { type: 'unsigned' },
+    authorName: { type: 'string' },
+    platform: { type: 'string' },
+    selfId: { type: 'string' },
+    channelId: { type: 'string' },
+    guildId: { type: 'string' },
+    userId: { type: 'string' },
+    lastIllustId: { type: 'unsigned', nullable: true },
+    createdAt: { type: 'timestamp' },
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 定义被关注作者表，记录每位作者最后一次见到的作品 ID，多个关注者共享一次轮询
+  // @ts-expect-error - pixiv_followed_artists is a custom table
+  ctx.model.extend('pixiv_followed_artists', {
+    id: { type: 'unsigned' },
+    lastIllustId: { type: 'unsigned', nullable: true },
+    checkedAt: { type: 'timestamp', nullable: true },
+  }, {
+    primary: 'id',
+  })
+
+  // 定义关键词订阅表，seenIds 为该订阅已处理过的作品，用于去重；pendingIds 为收藏数暂未达标的作品
+  // @ts-expect-error - pixiv_search_watches is a custom table
+  ctx.model.extend('pixiv_search_watches', {
+    id: { type: 'unsigned', autoInc: true },
+    platform: { type: 'string' },
+    selfId: { type: 'string' },
+    channelId: { type: 'string' },
+    guildId: { type: 'string' },
+    keyword: { type: 'string' },
+    target: { type: 'string' },
+    sort: { type: 'string' },
+    minBookmarks: { type: 'unsigned' },
+    seenIds: { type: 'json', nullable: true },
+    pendingIds: { type: 'json', nullable: true },
+    checkedAt: { type: 'timestamp', nullable: true },
+    createdBy: { type: 'string' },
+    createdAt: { type: 'timestamp' },
+  }, {
+    primary: 'id',
+    autoInc: true,
+  })
+
+  // 定义展示历史表，scope 为频道或私聊，同一作品只保留最近一次展示时间
+  // @ts-expect-error - pixiv_shown_history is a custom table
+  ctx.model.extend('pixiv_shown_history', {
+    scope: { type: 'string', length: 255 },
+    illustId: { type: 'unsigned' },
+    title: { type: 'string' },
+    authorName: { type: 'string' },
+    shownAt: { type: 'timestamp' },
+  }, {
+    primary: ['scope', 'illustId'],
+  })
+
+  // 获取 sessionId，按共享范围决定分页状态的归属；没有频道信息时退化为按用户
+  const getSessionId = (session: any, scope: SessionScope = config.sessionScope) => {
+    if (scope === 'channel' && session.channelId) {
+      return `${session.platform}:channel:${session.channelId}`
+    }
+    if (scope === 'user-channel' && session.channelId) {
+      return `${session.platform}:${session.channelId}:${session.userId}`
+    }
     return `${session.platform}:${session.userId}`
   }
 
@@ -81,6 +802,24 @@ export function apply(ctx: Context, config: Config) {
     'keyword': SearchTarget.KEYWORD,
   }
 
+  const durationMap: Record<string, string> = {
+    'day': 'within_last_day',
+    'week': 'within_last_week',
+    'month': 'within_last_month',
+  }
+
+  // 校验枚举类选项，无效时列出可选值
+  const invalidChoice = (label: string, value: string, choices: string[]) => {
+    return `无效的${label}：${value}，可选：${choices.join(' / ')}`
+  }
+
+  // 校验 YYYY-MM-DD 格式的日期
+  const isValidDate = (value: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+    const date = new Date(`${value}T00:00:00Z`)
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+  }
+
   // 日志助手函数
   const log = (level: 'info' | 'warn' | 'error', message: string, ...args: any[]) => {
     const prefix = '[PixivBot]'
@@ -129,7 +868,313 @@ export function apply(ctx: Context, config: Config) {
     }
   }
 
-  type PixivClient = Awaited<ReturnType<typeof Pixiv.of>>
+  // 读取分页状态，优先使用未过期的内存缓存
+  const getState = async (sessionId: string): Promise<SearchState | undefined> => {
+    const cached = stateCache.get(sessionId)
+    if (cached && Date.now() - cached.cachedAt < config.stateCacheTTL) {
+      return cached.state
+    }
+
+    const [row] = await (ctx.database as any).get('pixiv_search_states', { id: sessionId })
+    if (!row || Date.now() - +row.updatedAt > config.stateTTL) {
+      stateCache.delete(sessionId)
+      return undefined
+    }
+
+    stateCache.set(sessionId, { state: row.state, cachedAt: Date.now() })
+    return row.state
+  }
+
+  // 保存分页状态，写入失败时仅记录日志，内存缓存仍然可用
+  const setState = async (sessionId: string, state: SearchState) => {
+    stateCache.set(sessionId, { state, cachedAt: Date.now() })
+    try {
+      await (ctx.database as any).upsert('pixiv_search_states', [{
+        id: sessionId,
+        state,
+        updatedAt: new Date(),
+      }])
+    } catch (error: any) {
+      log('warn', '保存分页状态失败', { sessionId, message: error.message })
+    }
+  }
+
+  // 清理过期的分页状态和内存缓存
+  const cleanupStates = async () => {
+    const now = Date.now()
+    for (const [sessionId, cached] of stateCache) {
+      if (now - cached.cachedAt >= config.stateCacheTTL) {
+        stateCache.delete(sessionId)
+      }
+    }
+
+    try {
+      await (ctx.database as any).remove('pixiv_search_states', {
+        updatedAt: { $lt: new Date(now - config.stateTTL) },
+      })
+    } catch (error: any) {
+      log('warn', '清理过期分页状态失败', { message: error.message })
+    }
+  }
+
+  ctx.on('ready', cleanupStates)
+  ctx.setInterval(cleanupStates, config.stateCleanupInterval)
+
+  // 将等待时间格式化为易读的文本
+  const formatWait = (ms: number) => {
+    const seconds = Math.max(1, Math.ceil(ms / 1000))
+    if (seconds < 60) return `${seconds} 秒`
+    if (seconds < 3600) return `${Math.ceil(seconds / 60)} 分钟`
+    return `${Math.ceil(seconds / 3600)} 小时`
+  }
+
+  // 检查冷却和配额，通过时记录本次请求；返回提示文本表示被限流
+  const checkRateLimit = async (session: any, category: RateLimitCategory) => {
+    if (config.rateLimitExempt.some(id => id === session.userId || id === `${session.platform}:${session.userId}`)) {
+      return
+    }
+
+    const rule = config.rateLimits[category]
+    const subjects = [
+      { id: `${category}:user:${session.platform}:${session.userId}`, cooldown: rule.userCooldown, quota: rule.userQuota, label: '你' },
+    ]
+    if (!session.isDirect && session.channelId) {
+      subjects.push({ id: `${category}:channel:${session.platform}:${session.channelId}`, cooldown: rule.channelCooldown, quota: rule.channelQuota, label: '本群' })
+    }
+    const active = subjects.filter(subject => subject.cooldown || subject.quota)
+    if (active.length === 0) return
+
+    const now = Date.now()
+    const categoryName = rateLimitCategories[category]
+    try {
+      const rows = await (ctx.database as any).get('pixiv_rate_limits', { id: active.map(subject => subject.id) })
+      const records = active.map((subject) => {
+        const row = rows.find((item: any) => item.id === subject.id)
+        const hits: number[] = (row?.hits || []).filter((time: number) => now - time < config.quotaWindow)
+        return { ...subject, hits }
+      })
+
+      for (const { cooldown, quota, label, hits } of records) {
+        const last = hits[hits.length - 1]
+        if (cooldown && last && now - last < cooldown) {
+          return `${label}的${categoryName}太频繁啦，请 ${formatWait(cooldown - (now - last))}后再试~`
+        }
+        if (quota && hits.length >= quota) {
+          return `${label}的${categoryName}次数已达上限（${quota} 次），请 ${formatWait(hits[hits.length - quota] + config.quotaWindow - now)}后再试~`
+        }
+      }
+
+      // 只保留判断所需的最近若干条记录
+      await (ctx.database as any).upsert('pixiv_rate_limits', records.map(({ id, quota, hits }) => ({
+        id,
+        hits: [...hits, now].slice(-Math.max(quota, 1)),
+        updatedAt: new Date(now),
+      })))
+    } catch (error: any) {
+      log('warn', '限流检查失败，本次放行', { category, message: error.message })
+    }
+  }
+
+  // 命令的前置限流检查
+  const rateLimit = (category: RateLimitCategory) => ({ session }: { session?: any }) => checkRateLimit(session, category)
+
+  // 清理超出统计窗口的限流记录
+  const cleanupRateLimits = async () => {
+    try {
+      await (ctx.database as any).remove('pixiv_rate_limits', {
+        updatedAt: { $lt: new Date(Date.now() - config.quotaWindow) },
+      })
+    } catch (error: any) {
+      log('warn', '清理限流记录失败', { message: error.message })
+    }
+  }
+
+  ctx.setInterval(cleanupRateLimits, config.stateCleanupInterval)
+
+  // 展示历史的归属：群聊按频道，私聊按用户
+  const getHistoryScope = (session: any) => {
+    const targets = getPolicyTargets(session)
+    return targets.channel ?? targets.private ?? targets.guild
+  }
+
+  // 记录展示过的作品，失败时只记录日志
+  const recordShown = async (session: any, illust: any) => {
+    try {
+      await (ctx.database as any).upsert('pixiv_shown_history', [{
+        scope: getHistoryScope(session),
+        illustId: illust.id,
+        title: illust.title || '',
+        authorName: illust.user?.name || '',
+        shownAt: new Date(),
+      }])
+    } catch (error: any) {
+      log('warn', '记录展示历史失败', { illustId: illust.id, message: error.message })
+    }
+  }
+
+  // 读取保留期内展示过的作品 ID
+  const getShownIds = async (scope: string) => {
+    try {
+      const rows: ShownHistory[] = await (ctx.database as any).get('pixiv_shown_history', {
+        scope,
+        shownAt: { $gte: new Date(Date.now() - config.historyTTL) },
+      }, ['illustId'])
+      return new Set(rows.map(row => row.illustId))
+    } catch (error: any) {
+      log('warn', '读取展示历史失败', { scope, message: error.message })
+      return new Set<number>()
+    }
+  }
+
+  const cleanupHistory = async () => {
+    try {
+      await (ctx.database as any).remove('pixiv_shown_history', {
+        shownAt: { $lt: new Date(Date.now() - config.historyTTL) },
+      })
+    } catch (error: any) {
+      log('warn', '清理展示历史失败', { message: error.message })
+    }
+  }
+
+  ctx.setInterval(cleanupHistory, config.stateCleanupInterval)
+
+  // 全局配置对应的默认内容策略
+  const defaultPolicy = (): ContentPolicy => ({
+    allowR18: config.enableR18,
+    allowR18G: config.enableR18G,
+    allowAI: config.enableAI,
+    maxResults: config.searchResultCount,
+  })
+
+  // 当前会话适用的策略层级，越靠后越具体，私聊只有一级
+  const getPolicyTargets = (session: any) => {
+    if (session.isDirect || !session.guildId && !session.channelId) {
+      return { private: `${session.platform}:private:${session.userId}` }
+    }
+    return {
+      guild: session.guildId ? `${session.platform}:guild:${session.guildId}` : undefined,
+      channel: session.channelId ? `${session.platform}:channel:${session.channelId}` : undefined,
+    }
+  }
+
+  const policyLevelNames: Record<string, string> = { guild: '群组', channel: '频道', private: '私聊' }
+
+  // 管理命令要修改的层级：私聊只有一级，群聊默认为频道，没有频道时为群组；指定的层级在当前会话中不存在时返回错误
+  const resolvePolicyTarget = (session: any, level?: 'guild' | 'channel') => {
+    const targets = getPolicyTargets(session)
+    const id = 'private' in targets
+      ? level ? undefined : targets.private
+      : level ? targets[level] : targets.channel ?? targets.guild
+    if (!id) {
+      return { error: `当前会话没有${policyLevelNames[level]}层级，无法使用 --level ${level}` }
+    }
+    return { id }
+  }
+
+  // 读取会话的生效内容策略：全局配置 → 群组 → 频道，未设置的项逐级继承
+  const getPolicy = async (session: any): Promise<ContentPolicy> => {
+    const targets = getPolicyTargets(session)
+    const ids = Object.values(targets).filter(Boolean)
+    const policy = defaultPolicy()
+    try {
+      const rows: ContentPolicyRow[] = await (ctx.database as any).get('pixiv_content_policies', { id: ids })
+      for (const id of ids) {
+        const row = rows.find(item => item.id === id)
+        if (!row) continue
+        for (const key of ['allowR18', 'allowR18G', 'allowAI', 'maxResults'] as const) {
+          if (row[key] != null) (policy as any)[key] = row[key]
+        }
+      }
+    } catch (error: any) {
+      log('warn', '读取内容策略失败，使用全局配置', { ids, message: error.message })
+    }
+    return policy
+  }
+
+  // 配置中的模板在加载时检查一次，不认识的占位符会原样输出
+  for (const [command, template] of Object.entries({ '': config.captionTemplate, ...config.captionTemplates })) {
+    const unknown = validateCaptionTemplate(template)
+    if (unknown.length) {
+      log('warn', '说明模板中有未知的占位符', { command: command || '全局', unknown })
+    }
+  }
+
+  // 读取命令适用的说明模板：命令模板（频道 → 群组 → 配置 → 内置）优先于通用模板（频道 → 群组 → 配置）
+  const getCaptionTemplate = async (session: any, command?: string) => {
+    const ids = Object.values(getPolicyTargets(session)).filter(Boolean)
+    let rows: CaptionTemplateRow[] = []
+    try {
+      rows = await (ctx.database as any).get('pixiv_caption_templates', { id: ids })
+    } catch (error: any) {
+      log('warn', '读取说明模板失败，使用全局配置', { ids, message: error.message })
+    }
+    const scopes = [...ids].reverse().map(id => rows.find(row => row.id === id)?.templates ?? {})
+    return resolveCaptionTemplate(command, scopes, config.captionTemplates, config.captionTemplate)
+  }
+
+  // 图片缓存，同一 URL 的并发请求共享一次下载
+  const imageCache = createImageCache({
+    enabled: config.imageCache,
+    directory: resolve(ctx.baseDir, config.imageCacheDir),
+    maxSize: config.imageCacheSize * 1024 * 1024,
+  }, (message, error) => {
+    log('warn', message, { message: error.message })
+  })
+
+  // 网络配置：API 与图片分别使用各自的代理和超时，未配置代理时沿用环境变量
+  const imageProxy = config.imageProxy || config.apiProxy
+  // 代理地址无效时记录警告并改为直连，避免插件启动失败
+  const createAgents = (name: string, proxy: string) => {
+    try {
+      return createProxyAgents(proxy)
+    } catch (error: any) {
+      log('warn', `${name} 无效，已改为直连`, { message: error.message })
+      return {}
+    }
+  }
+  const apiAgents = createAgents('apiProxy', config.apiProxy)
+  const imageAgents = createAgents('imageProxy', imageProxy)
+  const apiRequestConfig: any = {
+    ...apiAgents,
+    ...(config.apiProxy ? { proxy: false } : {}),
+    timeout: config.apiTimeout,
+  }
+  const imageRequestConfig: any = {
+    ...imageAgents,
+    ...(imageProxy ? { proxy: false } : {}),
+    timeout: config.imageTimeout,
+  }
+
+  // pixivts 的 Pixiv.of 直接用全局 axios 实例请求 OAuth，既不接受 axios 实例也不接受代理配置，
+  // 构造函数又是私有的，无法自行换取 Token 后创建客户端。因此只在 Pixiv.of 执行期间挂载拦截器，
+  // 且只修改发往 Pixiv OAuth 服务器的请求，结束后立即移除，不影响其他插件的 axios 请求
+  const PIXIV_OAUTH_URL = 'https://oauth.secure.pixiv.net'
+  const loginPixiv = async () => {
+    const interceptor = axios.interceptors.request.use((request) => {
+      if (request.url?.startsWith(PIXIV_OAUTH_URL)) {
+        Object.assign(request, apiRequestConfig)
+      }
+      return request
+    })
+    try {
+      return await Pixiv.of(config.refreshToken)
+    } finally {
+      axios.interceptors.request.eject(interceptor)
+    }
+  }
+
+  // 生效的网络配置摘要，用于日志和 pixiv-test
+  const describeNetwork = () => {
+    const envProxy = process.env.HTTPS_PROXY || process.env.https_proxy || process.env.ALL_PROXY || process.env.all_proxy
+    const envText = `环境变量 ${envProxy ? maskProxy(envProxy) : '未设置'}`
+    return {
+      apiProxy: config.apiProxy ? maskProxy(config.apiProxy) : envText,
+      imageProxy: imageProxy === DIRECT ? '直连' : imageProxy ? maskProxy(imageProxy) : envText,
+      imageMirror: config.imageMirror || `未设置（${PXIMG_HOST}）`,
+      timeout: `API ${config.apiTimeout}ms / 图片 ${config.imageTimeout}ms`,
+    }
+  }
+
   let pixivClient: PixivClient | null = null
   let pixivClientPromise: Promise<PixivClient> | null = null
 
@@ -141,9 +1186,12 @@ export function apply(ctx: Context, config: Config) {
     log('info', '正在初始化 Pixiv 客户端...')
     log('info', `Node 版本：${process.version}`)
     logProxyEnv('初始化前')
+    log('info', '网络配置', describeNetwork())
 
-    pixivClientPromise = Pixiv.of(config.refreshToken)
+    pixivClientPromise = loginPixiv()
       .then((client) => {
+        // 后续 API 请求（包括跟随 next_url）都通过客户端自身的 axios 实例发出
+        Object.assign(client.axios.defaults, apiRequestConfig)
         pixivClient = client
         log('info', 'Pixiv 客户端初始化成功', { userId: client.userId })
         return client
@@ -170,495 +1218,1818 @@ export function apply(ctx: Context, config: Config) {
     return pixivClientPromise
   }
 
-  // 下载图片并发送
-  const sendIllust = async (session: any, illust: any, page: number = 0) => {
-    try {
-      // Pixiv API 返回的是 image_urls 而不是 urls
-      // 如果是多页图片，从 meta_pages 获取；否则从 image_urls 获取
-      let imageUrl: string | undefined
-      let imageUrlsLog: any = illust.image_urls
-
-      // 检查是否为多页图片
-      if (illust.meta_pages && illust.meta_pages.length > 0) {
-        if (page >= 0 && page < illust.meta_pages.length) {
-          imageUrl = illust.meta_pages[page].image_urls?.large ??
-                     illust.meta_pages[page].image_urls?.medium ??
-                     illust.meta_pages[page].image_urls?.square_medium
-          imageUrlsLog = illust.meta_pages[page].image_urls
-        }
-      } else {
-        // 单页图片
-        imageUrl = illust.image_urls?.large ??
-                   illust.image_urls?.medium ??
-                   illust.image_urls?.square_medium
-      }
+  // 请求调度器：API 请求与图片下载共享并发上限，遇到限流和瞬时错误时退避重试
+  const scheduler = createScheduler({
+    concurrency: config.requestConcurrency,
+    retries: config.requestRetries,
+    baseDelay: config.retryBaseDelay,
+    maxDelay: config.retryMaxDelay,
+  }, ({ label, attempt, delay, error, queued }) => {
+    log('warn', `请求失败，${delay}ms 后重试`, {
+      label,
+      attempt,
+      queued,
+      status: error?.response?.status,
+      code: error?.code,
+      message: error?.message,
+    })
+  })
 
-      log('info', '准备下载图片', {
-        illustId: illust.id,
-        title: illust.title,
-        page,
-        imageUrls: imageUrlsLog,
-        selectedUrl: imageUrl,
-      })
+  // access token 过期时 Pixiv 返回 400 并在错误信息中提示 OAuth / invalid_grant
+  const isTokenExpired = (error: any) => {
+    const status = error?.response?.status
+    if (status !== 400 && status !== 401 && status !== 403) return false
+    const message = JSON.stringify(error.response.data ?? '')
+    return /invalid_grant|OAuth/i.test(message)
+  }
 
-      if (!imageUrl) {
-        log('warn', '图片 URL 不存在', {
-          illustId: illust.id,
-          title: illust.title,
-          imageUrls: imageUrlsLog,
-        })
-        return
-      }
+  // pixivts 不会因 HTTP 状态码抛出异常，这里将错误响应转换为异常，便于重试和报错
+  const toPixivError = (response: any) => {
+    const data = response.data
+    const message = data?.error?.message || data?.error?.user_message || `HTTP ${response.status}`
+    const error: any = new Error(message)
+    error.response = response
+    return error
+  }
 
-      // 使用代理下载图片
-      const axiosConfig: any = {
-        responseType: 'arraybuffer',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          Referer: 'https://www.pixiv.net/',
-        },
+  // 通过调度器调用 Pixiv API；token 过期时立即重新认证并重试一次，不占用重试次数也不等待退避
+  const callPixiv = <T>(label: string, request: (pixiv: PixivClient) => Promise<T>) => {
+    let reauthenticated = false
+    return scheduler.run(label, async () => {
+      for (;;) {
+        const client = await initPixiv()
+        try {
+          const result: any = await request(client)
+          if (result?.status >= 400) throw toPixivError(result)
+          return result as T
+        } catch (error) {
+          if (reauthenticated || !isTokenExpired(error)) throw error
+          reauthenticated = true
+          // 并发请求同时过期时只丢弃一次客户端，后续请求复用新的客户端
+          if (pixivClient === client) {
+            log('warn', 'Pixiv access token 已过期，重新认证', { label })
+            pixivClient = null
+          }
+        }
       }
+    })
+  }
 
-      const response = await axios.get(imageUrl, axiosConfig)
-      const imageBuffer = Buffer.isBuffer(response.data) ? response.data : Buffer.from(response.data)
+  // 获取插画的页数
+  const getPageCount = (illust: any) => illust.meta_pages?.length || 1
 
-      log('info', '图片下载成功', {
-        illustId: illust.id,
-        size: imageBuffer.length,
-      })
+  // 列表中自动发送的页码：多页作品发送前 multiPageCount 页
+  const getDefaultPages = (illust: any) => {
+    const count = Math.min(getPageCount(illust), config.multiPageCount, config.maxPageCount)
+    return Array.from({ length: Math.max(count, 1) }, (_, page) => page)
+  }
 
-      const pageCount = illust.meta_pages?.length || 1
-      const pageText = pageCount > 1 ? ` [${page + 1}/${pageCount}]` : ''
-
-      const message = [
-        h.image(imageBuffer, 'image/png'),
-        h.text(`\n标题：${illust.title}${pageText}`),
-        h.text(`\n作者：${illust.user?.name || '未知'}`),
-        h.text(`\nID: ${illust.id}`),
-      ]
-
-      await session.send(message)
-      log('info', '图片发送成功', { illustId: illust.id, page })
-
-      // 更新最近一次展示的插画 ID
-      const sessionId = `${session.platform}:${session.userId}`
-      const state = searchStates.get(sessionId)
-      if (state) {
-        searchStates.set(sessionId, {
-          ...state,
-          lastIllustId: illust.id,
-        })
+  // 解析页码范围：N、A-B 或 all，页码从 1 开始；返回从 0 开始的页码及是否因上限被截断，或错误提示
+  const parsePageRange = (input: string, pageCount: number): { pages: number[], truncated: boolean } | string => {
+    let start = 1
+    let end = pageCount
+    if (input !== 'all') {
+      const match = /^(\d+)(?:-(\d+))?$/.exec(input.trim())
+      if (!match) {
+        return `无效的页码：${input}，格式为 N、A-B 或 all，比如：3、2-5`
       }
-    } catch (error: any) {
-      log('error', '发送图片失败', {
-        illustId: illust.id,
-        page,
-        message: error.message,
-        stack: error.stack,
-        code: error.code,
-      })
-      throw error
+      start = Number(match[1])
+      end = match[2] ? Number(match[2]) : start
+    }
+    if (start < 1 || start > end || end > pageCount) {
+      return `页码超出范围，该作品共 ${pageCount} 页`
     }
+    const pages: number[] = []
+    for (let page = start; page <= end && pages.length < config.maxPageCount; page++) {
+      pages.push(page - 1)
+    }
+    return { pages, truncated: pages.length < end - start + 1 }
   }
 
-  // 过滤 R18 和 AI 内容
-  const filterIllusts = (illusts: any[]) => {
-    if (config.enableR18) {
-      log('info', 'R18 模式已启用，不过滤 R18 内容')
-    }
-    if (config.enableAI) {
-      log('info', 'AI 模式已启用，不过滤 AI 内容')
+  // 使用图片代理下载 pximg 上的文件，配置了镜像时从镜像下载
+  const downloadImage = async (url: string): Promise<Buffer> => {
+    const axiosConfig: any = {
+      ...imageRequestConfig,
+      responseType: 'arraybuffer',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        Referer: 'https://www.pixiv.net/',
+      },
     }
 
-    const filtered = illusts.filter(illust => {
-      // 检查 xRestrict 标记 (R18)
-      if (!config.enableR18 && illust.xRestrict) {
-        log('info', '过滤 R18 图片 (xRestrict)', { illustId: illust.id, title: illust.title })
-        return false
-      }
-      // 检查 R18 标签
-      if (!config.enableR18 && illust.tags) {
-        const hasR18Tag = illust.tags.some((tag: any) => {
-          const tagName = (tag as any).name?.toLowerCase() || ''
-          return tagName.includes('r-18') || tagName.includes('r18')
+    const response = await scheduler.run('image', () => axios.get(rewriteImageUrl(url, config.imageMirror), axiosConfig))
+    return Buffer.isBuffer(response.data) ? response.data : Buffer.from(response.data)
+  }
+
+  // 合成动图为 GIF，合成结果按 ZIP 地址缓存；失败时返回 null，由调用方回退到第一帧
+  const fetchUgoira = async (illust: any) => {
+    try {
+      const result = await callPixiv('ugoiraMetadata', pixiv => pixiv.ugoiraMetadata({ illustId: illust.id }))
+      const metadata = result.data.ugoira_metadata
+      const zipUrl = metadata.zip_urls.medium
+
+      log('info', '准备合成动图', { illustId: illust.id, frames: metadata.frames.length, zipUrl })
+
+      const gif = await imageCache.get(`${zipUrl}#gif`, async () => {
+        const zip = await downloadImage(zipUrl)
+        return encodeUgoiraGif(zip, metadata.frames, {
+          maxFrames: config.ugoiraMaxFrames,
+          maxSize: config.ugoiraMaxSize * 1024 * 1024,
         })
-        if (hasR18Tag) {
-          log('info', '过滤 R18 图片 (标签)', { illustId: illust.id, title: illust.title })
-          return false
+      })
+
+      log('info', '动图合成成功', { illustId: illust.id, size: gif.length })
+      return gif
+    } catch (error: any) {
+      log('warn', '合成动图失败，回退为第一帧', {
+        illustId: illust.id,
+        message: error.message,
+      })
+      return null
+    }
+  }
+
+  // 下载插画指定页的图片，没有可用的图片 URL 时返回 null
+  const fetchIllustPage = async (illust: any, page: number) => {
+    // Pixiv API 返回的是 image_urls 而不是 urls
+    // 如果是多页图片，从 meta_pages 获取；否则从 image_urls 获取
+    let imageUrl: string | undefined
+    let imageUrlsLog: any = illust.image_urls
+
+    // 检查是否为多页图片
+    if (illust.meta_pages && illust.meta_pages.length > 0) {
+      if (page >= 0 && page < illust.meta_pages.length) {
+        imageUrl = illust.meta_pages[page].image_urls?.large ??
+                   illust.meta_pages[page].image_urls?.medium ??
+                   illust.meta_pages[page].image_urls?.square_medium
+        imageUrlsLog = illust.meta_pages[page].image_urls
+      }
+    } else {
+      // 单页图片
+      imageUrl = illust.image_urls?.large ??
+                 illust.image_urls?.medium ??
+                 illust.image_urls?.square_medium
+    }
+
+    log('info', '准备下载图片', {
+      illustId: illust.id,
+      title: illust.title,
+      page,
+      imageUrls: imageUrlsLog,
+      selectedUrl: imageUrl,
+    })
+
+    if (!imageUrl) {
+      log('warn', '图片 URL 不存在', {
+        illustId: illust.id,
+        title: illust.title,
+        imageUrls: imageUrlsLog,
+      })
+      return null
+    }
+
+    const imageBuffer = await imageCache.get(imageUrl, () => downloadImage(imageUrl))
+
+    log('info', '图片获取成功', {
+      illustId: illust.id,
+      page,
+      size: imageBuffer.length,
+    })
+    return imageBuffer
+  }
+
+  // 构建插画某一页的消息内容，说明按模板生成，模板为空时只发送图片
+  const renderIllustPage = (illust: any, page: number, imageBuffer: Buffer, template: string, mimeType: string = 'image/png') => {
+    const caption = renderCaption(template, illust, { page, maxCaptionLength: config.captionMaxLength })
+    return caption
+      ? [h.image(imageBuffer, mimeType), h.text(`\n${caption}`)]
+      : [h.image(imageBuffer, mimeType)]
+  }
+
+  // 下载并发送插画的若干页，多页时可以合并为一条转发消息
+  const sendIllustPages = async (
+    session: any,
+    illust: any,
+    pages: number[],
+    sessionId: string = getSessionId(session),
+    forward: boolean = config.multiPageForward,
+    command: string | undefined = session.argv?.command?.name,
+  ) => {
+    try {
+      // 按展示插画的命令选择模板，翻页时由调用方传入最初的命令，定时推送等场景没有命令
+      const template = await getCaptionTemplate(session, command)
+      const contents: h[][] = []
+      for (const page of pages) {
+        // 动图只有一页，优先发送合成的 GIF
+        const animation = illust.type === 'ugoira' && config.ugoira ? await fetchUgoira(illust) : null
+        if (animation) {
+          contents.push(renderIllustPage(illust, page, animation, template, 'image/gif'))
+          continue
+        }
+
+        const imageBuffer = await fetchIllustPage(illust, page)
+        if (imageBuffer) {
+          contents.push(renderIllustPage(illust, page, imageBuffer, template))
         }
       }
-      // 检查 AI 生成标签
-      if (!config.enableAI && illust.tags) {
-        const hasAITag = illust.tags.some((tag: any) => {
-          const tagName = (tag as any).name?.toLowerCase() || ''
-          return tagName.includes('ai') || tagName.includes('ai生成') || tagName.includes('生成ai')
-        })
-        if (hasAITag) {
-          log('info', '过滤 AI 生成图片', { illustId: illust.id, title: illust.title })
-          return false
+
+      if (contents.length === 0) return
+
+      if (forward && contents.length > 1) {
+        await session.send(h('message', { forward: true }, contents.map(content => h('message', {}, content))))
+      } else {
+        for (const content of contents) {
+          await session.send(content)
         }
       }
+      log('info', '图片发送成功', { illustId: illust.id, pages, forward })
+      await recordShown(session, illust)
+
+      // 更新最近一次展示的插画 ID；没有分页状态时新建一个没有后续结果的状态来记录
+      const state = await getState(sessionId)
+        ?? { ...startState({ type: 'related', relatedId: illust.id }), hasMore: false }
+      await setState(sessionId, {
+        ...state,
+        lastIllustId: illust.id,
+        lastIllustCommand: command,
+      })
+    } catch (error: any) {
+      log('error', '发送图片失败', {
+        illustId: illust.id,
+        pages,
+        message: error.message,
+        stack: error.stack,
+        code: error.code,
+      })
+      throw error
+    }
+  }
+
+  // 下载图片并发送
+  const sendIllust = (session: any, illust: any, page: number = 0, sessionId: string = getSessionId(session)) => {
+    return sendIllustPages(session, illust, [page], sessionId)
+  }
+
+
+  // 过滤规则只在插件加载时编译一次
+  const illustFilter = createIllustFilter(config, (rule, error) => {
+    log('warn', '忽略无效的标签规则', { rule, message: error.message })
+  })
+
+  // 按内容策略和过滤规则过滤作品
+  const filterIllusts = (illusts: any[], policy: ContentPolicy = defaultPolicy()) => {
+    if (policy.allowR18) {
+      log('info', 'R18 模式已启用，不过滤 R18 内容')
+    }
+    if (policy.allowAI) {
+      log('info', 'AI 模式已启用，不过滤 AI 内容')
+    }
+
+    const filtered = illusts.filter(illust => {
+      const reasons = illustFilter(illust, policy)
+      if (reasons.length > 0) {
+        log('info', '过滤图片', { illustId: illust.id, title: illust.title, reason: reasons[0] })
+        return false
+      }
       return true
     })
     log('info', `内容过滤完成：${illusts.length} -> ${filtered.length}`)
     return filtered
   }
 
+  // 新建分页状态，从来源的第一页开始读取
+  const startState = (fields: Omit<SearchState, 'offset' | 'nextUrl' | 'hasMore'>): SearchState => ({
+    ...fields,
+    offset: 0,
+    nextUrl: null,
+    hasMore: true,
+  })
+
+  // 将 Pixiv 列表接口的响应转换为结果页
+  const toResultPage = (result: any): ResultPage => ({
+    illusts: result.data.illusts || [],
+    nextUrl: result.data.next_url || null,
+  })
+
+  // 跟随 Pixiv 返回的 next_url 获取下一页，next_url 已经包含了全部查询参数
+  const followNextUrl = async (_state: SearchState, nextUrl: string) => {
+    return toResultPage(await callPixiv('nextUrl', pixiv => pixiv.axios.get(nextUrl)))
+  }
+
+  // 获取作者的插画或漫画列表，最新的作品在前
+  const fetchUserIllusts = async (userId: number, type: WorkType = 'illust') => {
+    return toResultPage(await callPixiv('userIllusts', pixiv => pixiv.axios.get('/v1/user/illusts', {
+      params: { user_id: userId, type, filter: 'for_ios' },
+    })))
+  }
+
+  // 按 ID 或名称查找作者：名称通过用户搜索匹配第一位作者，其余搜索结果作为候选
+  const resolveAuthor = async (input: string) => {
+    let userId = Number(input)
+    let candidates: any[] = []
+    if (!/^\d+$/.test(input)) {
+      const result = await callPixiv('searchUser', pixiv => pixiv.axios.get('/v1/search/user', {
+        params: { word: input, filter: 'for_ios' },
+      }))
+      const users = (result.data.user_previews || []).map((preview: any) => preview.user)
+      if (users.length === 0) return null
+      userId = users[0].id
+      candidates = users.slice(1, 5)
+    }
+    const detail = await callPixiv('userDetail', pixiv => pixiv.userDetail({ userId }))
+    return { user: detail.data.user, profile: detail.data.profile, candidates }
+  }
+
+  const describeCandidates = (candidates: any[]) => {
+    return candidates.length ? `\n其他匹配的作者：${candidates.map(user => `${user.name} (${user.id})`).join('、')}` : ''
+  }
+
+  // 从插画详情中提取收藏快照
+  const toFavoriteSnapshot = (illust: any): FavoriteSnapshot => ({
+    title: illust.title || '',
+    authorId: illust.user?.id || 0,
+    authorName: illust.user?.name || '',
+    tags: [...new Set<string>((illust.tags || []).flatMap((tag: any) => [tag.name, tag.translated_name].filter(Boolean)))],
+    pageCount: getPageCount(illust),
+    xRestrict: illust.x_restrict || 0,
+    aiType: illust.illust_ai_type || 0,
+    thumbnailUrl: illust.image_urls?.square_medium || '',
+    checkedAt: new Date(),
+    unavailable: false,
+  })
+
+  // 作品被删除时 Pixiv 返回 404，设为非公开的作品 visible 为 false
+  const isIllustMissing = (error: any) => {
+    return error?.response?.status === 404 || /削除|存在しない/.test(error?.message || '')
+  }
+
+  // 获取作品详情，区分作品已失效（missing）和暂时无法获取（两者都为空）
+  const fetchIllustStatus = async (illustId: number): Promise<{ illustId: number, illust?: any, missing?: boolean }> => {
+    try {
+      const result = await callPixiv('illustDetail', pixiv => pixiv.illustDetail({ illustId }))
+      const illust = result.data.illust
+      return illust && illust.visible !== false ? { illustId, illust } : { illustId, missing: true }
+    } catch (error: any) {
+      if (isIllustMissing(error)) return { illustId, missing: true }
+      log('warn', '获取插画详情失败', { illustId, message: error.message })
+      return { illustId }
+    }
+  }
+
+  // 按作品详情更新所有收藏了该作品的快照，已失效的作品保留最后一次的快照
+  const saveIllustStatus = async (status: { illustId: number, illust?: any, missing?: boolean }) => {
+    if (status.illust) {
+      await (ctx.database as any).set('pixiv_favorite_items', { illustId: status.illustId }, toFavoriteSnapshot(status.illust))
+    } else if (status.missing) {
+      await (ctx.database as any).set('pixiv_favorite_items', { illustId: status.illustId }, { unavailable: true, checkedAt: new Date() })
+    }
+  }
+
+  // 获取一批收藏作品的详情，顺带刷新快照
+  const refreshFavorites = async (illustIds: number[]) => {
+    const statuses = await Promise.all(illustIds.map(fetchIllustStatus))
+    for (const status of statuses) {
+      try {
+        await saveIllustStatus(status)
+      } catch (error: any) {
+        log('warn', '更新收藏快照失败', { illustId: status.illustId, message: error.message })
+      }
+    }
+    return statuses
+  }
+
+  // 收藏列表按 searchResultCount 分段，nextUrl 为下一段的起始下标
+  // 已失效的作品不再发送，改为在回复中列出最后已知的标题
+  const fetchFavoritesPage = async (state: SearchState, start: number): Promise<ResultPage> => {
+    const favoriteIds = state.favoriteIds || []
+    const end = Math.min(start + config.searchResultCount, favoriteIds.length)
+    const statuses = await refreshFavorites(favoriteIds.slice(start, end))
+    const illusts = statuses.filter(status => status.illust).map(status => status.illust)
+    const missingIds = statuses.filter(status => status.missing).map(status => status.illustId)
+    if (illusts.length === 0 && missingIds.length === 0 && end > start) {
+      throw new Error('无法获取收藏的插画详情')
+    }
+
+    const notices: string[] = []
+    if (missingIds.length > 0) {
+      const rows: Favorite[] = await (ctx.database as any).get('pixiv_favorite_items', { illustId: missingIds })
+      const titles = missingIds.map(illustId => {
+        const title = rows.find(row => row.illustId === illustId && row.title)?.title
+        return title ? `《${title}》（ID: ${illustId}）` : `ID: ${illustId}`
+      })
+      notices.push(`以下收藏的作品已被删除或设为非公开：${titles.join('、')}`)
+    }
+    return {
+      illusts,
+      nextUrl: end < favoriteIds.length ? String(end) : null,
+      notices,
+    }
+  }
+
+  // 搜索接口的查询参数，值为 undefined 的参数不会发送
+  const getSearchParams = (state: SearchState, sort: SearchSort) => ({
+    word: state.keyword,
+    search_target: state.searchTarget,
+    sort,
+    duration: state.searchDuration,
+    start_date: state.startDate,
+    end_date: state.endDate,
+    filter: 'for_ios',
+    merge_plain_keyword_results: true,
+    include_translated_tag_results: true,
+  })
+
+  // 查询账号是否为会员，结果只查询一次
+  let premiumPromise: Promise<boolean> | null = null
+  const isPremium = () => {
+    premiumPromise ??= callPixiv('userDetail', pixiv => pixiv.userDetail({ userId: Number(pixiv.userId) }))
+      .then(result => !!result.data.profile?.is_premium)
+      .catch((error: any) => {
+        log('warn', '查询账号会员状态失败，按非会员处理', { message: error.message })
+        premiumPromise = null
+        return false
+      })
+    return premiumPromise
+  }
+
+  // 书签中已被删除或设为非公开的作品 visible 为 false，只有占位图，不再展示
+  const toBookmarkPage = (result: any): ResultPage => {
+    const page = toResultPage(result)
+    return { ...page, illusts: page.illusts.filter(illust => illust.visible !== false) }
+  }
+
+  // 各类列表命令的结果来源
+  const resultSources: Record<SearchState['type'], ResultSource> = {
+    search: {
+      first: async (state) => {
+        // 非会员不能按人气排序：先返回人气预览，之后按最新发布继续翻页，并在回复中说明
+        if (state.searchSort === SearchSort.POPULAR_DESC && !await isPremium()) {
+          log('info', '非会员账号，人气排序回退为人气预览', { keyword: state.keyword })
+          const preview = await callPixiv('searchPopularPreview', pixiv => pixiv.axios.get('/v1/search/popular-preview/illust', {
+            params: getSearchParams(state, SearchSort.POPULAR_DESC),
+          }))
+          const params = Object.entries(getSearchParams(state, SearchSort.DATE_DESC))
+            .filter(([, value]) => value != null)
+            .map(([key, value]) => [key, String(value)])
+          const illusts = preview.data.illusts || []
+          return {
+            illusts,
+            nextUrl: `/v1/search/illust?${new URLSearchParams(params)}`,
+            notices: illusts.length ? ['当前账号不是 Pixiv 会员，只有第一页为人气预览，之后的结果按最新发布排序'] : [],
+          }
+        }
+        return toResultPage(await callPixiv('searchIllust', pixiv => pixiv.axios.get('/v1/search/illust', {
+          params: getSearchParams(state, state.searchSort),
+        })))
+      },
+      noun: '图片',
+      emptyText: '没有找到相关的图片哦......请尝试更换关键词或者检查拼写~',
+    },
+    ranking: {
+      first: async state => toResultPage(await callPixiv('illustRanking', pixiv => pixiv.illustRanking({
+        mode: state.rankingMode as RankingMode,
+        date: state.rankingDate,
+        offset: state.rankingOffset,
+      }))),
+      noun: '热门图片',
+      emptyText: '暂无排行榜数据哦......',
+    },
+    recommended: {
+      first: async () => toResultPage(await callPixiv('illustRecommended', pixiv => pixiv.illustRecommended())),
+      volatile: true,
+      noun: '推荐图片',
+      emptyText: '暂无推荐插画数据哦......',
+    },
+    author: {
+      first: state => fetchUserIllusts(state.authorId, state.authorType),
+      noun: '图片',
+      emptyText: '该作者还没有作品哦......',
+    },
+    related: {
+      first: async state => toResultPage(await callPixiv('illustRelated', pixiv => pixiv.illustRelated({ illustId: state.relatedId }))),
+      noun: '相似作品',
+      emptyText: '没有找到相似的作品哦......',
+    },
+    bookmarks: {
+      first: async (state) => toBookmarkPage(await callPixiv('userBookmarksIllust', pixiv => pixiv.userBookmarksIllust({
+        userId: Number(pixiv.userId),
+        restrict: state.bookmarkRestrict as BookmarkRestrict,
+      }))),
+      next: async (_state, nextUrl) => toBookmarkPage(await callPixiv('nextUrl', pixiv => pixiv.axios.get(nextUrl))),
+      noun: '书签插画',
+      emptyText: 'Bot 账号还没有这类书签哦......',
+    },
+    favorites: {
+      first: state => fetchFavoritesPage(state, 0),
+      next: (state, nextUrl) => fetchFavoritesPage(state, Number(nextUrl)),
+      noun: '收藏插画',
+      emptyText: '你还没有收藏任何插画哦~使用"收藏"命令来收藏图片吧！',
+    },
+  }
+
+  // 从来源中收集至多 count 张通过过滤的插画，并返回推进后的分页状态
+  // 开启 skipShown 时跳过 historyScope 中展示过的作品，并从后续结果中补足数量
+  const collectIllusts = async (state: SearchState, policy: ContentPolicy, historyScope?: string) => {
+    const count = policy.maxResults
+    const source = resultSources[state.type]
+    const shown = state.skipShown && historyScope ? await getShownIds(historyScope) : null
+    const collected: any[] = []
+    const notices: string[] = []
+    let { offset, nextUrl, hasMore, buffer } = state
+
+    for (let pages = 0; hasMore && collected.length < count && pages < MAX_PAGES_PER_REQUEST; pages++) {
+      // 暂存的结果之后的下一页为 nextUrl
+      const page: ResultPage = buffer
+        ? { illusts: buffer, nextUrl }
+        : nextUrl
+          ? await (source.next ?? followNextUrl)(state, nextUrl)
+          : await source.first(state)
+
+      log('info', '结果页响应数据', {
+        type: state.type,
+        offset,
+        illustsCount: page.illusts.length,
+        nextUrl: page.nextUrl,
+      })
+
+      // 停留在同一页时会重新请求该页，提示只在第一次读取时给出
+      if (offset === 0) notices.push(...page.notices || [])
+      const taken = filterIllusts(page.illusts.slice(offset), policy)
+        .filter(illust => !shown?.has(illust.id) && matchSearchFilters(illust, state.filters))
+        .slice(0, count - collected.length)
+      collected.push(...taken)
+
+      // 本页还有未处理的结果时停留在本页，否则前进到下一页
+      const consumed = collected.length >= count && taken.length > 0
+        ? page.illusts.indexOf(taken[taken.length - 1]) + 1
+        : page.illusts.length
+      if (consumed < page.illusts.length && (buffer || !nextUrl && source.volatile)) {
+        buffer = page.illusts.slice(consumed)
+        offset = 0
+        nextUrl = page.nextUrl
+      } else if (consumed < page.illusts.length) {
+        offset = consumed
+      } else {
+        offset = 0
+        buffer = undefined
+        nextUrl = page.nextUrl
+        hasMore = !!page.nextUrl
+      }
+    }
+
+    return {
+      illusts: collected,
+      state: { ...state, offset, nextUrl, hasMore, buffer },
+      notices,
+    }
+  }
+
+  // 日志中只记录暂存结果的数量
+  const summarizeState = (state: SearchState) => state.buffer ? { ...state, buffer: state.buffer.length } : state
+
+  // 从来源读取一批结果，保存分页状态并发送图片
+  const presentResults = async (session: any, sessionId: string, state: SearchState, isFirstPage: boolean) => {
+    const source = resultSources[state.type]
+    // 记录开始浏览的命令，之后的下一页沿用它的说明模板
+    if (isFirstPage) state = { ...state, command: session.argv?.command?.name }
+    const policy = await getPolicy(session)
+    const { illusts, state: nextState, notices } = await collectIllusts(state, policy, getHistoryScope(session))
+    // 来源给出的提示放在回复的最前面
+    const reply = (text: string) => [...notices, text].join('\n')
+
+    if (illusts.length === 0) {
+      // 读取的页数达到上限但来源还有结果时保存进度，由下一页继续查找
+      if (nextState.hasMore) {
+        await setState(sessionId, nextState)
+        log('info', '本次读取的结果都被过滤，保存进度', { sessionId, state: summarizeState(nextState) })
+        return reply(`已查看 ${MAX_PAGES_PER_REQUEST} 页结果，暂时没有符合条件的${source.noun}，输入"下一页"继续查找`)
+      }
+      if (isFirstPage && notices.length === 0) {
+        log('warn', '来源无结果', { sessionId, type: state.type })
+        return source.emptyText
+      }
+      await setState(sessionId, nextState)
+      log('info', '没有更多图片了', { sessionId })
+      return reply('看起来没有更多图片了呢......')
+    }
+
+    // 保存分页状态
+    await setState(sessionId, nextState)
+    log('info', '分页状态已保存', { sessionId, state: summarizeState(nextState) })
+
+    // 发送图片
+    log('info', `准备发送 ${illusts.length} 张${source.noun}`)
+    for (const illust of illusts) {
+      await sendIllustPages(session, illust, getDefaultPages(illust), sessionId, config.multiPageForward, nextState.command)
+    }
+
+    if (!nextState.hasMore) {
+      return reply(`这里是 ${illusts.length} 张${source.noun}，已经没有更多了哦~`)
+    }
+    return reply(isFirstPage
+      ? `这里是 ${illusts.length} 张${source.noun}，跟我说"下一页"查看更多~`
+      : `已发送 ${illusts.length} 张图片，输入"下一页"查看更多`)
+  }
+
   // 搜图命令
-  log('info', '注册搜图命令，带选项：sort, target, duration')
+  log('info', '注册搜图命令，带选项：sort, target, duration, start, end, bookmarks, views, pages, orientation, exclude')
   ctx.command('搜图 [keywords:text]', '使用关键词搜索 Pixiv 图片')
     .alias('pixiv')
     .option('sort', '-s <type>')
     .option('target', '-t <type>')
     .option('duration', '-d <type>')
+    .option('start', '<date:string>')
+    .option('end', '<date:string>')
+    .option('bookmarks', '-b <count:natural>')
+    .option('views', '-v <count:natural>')
+    .option('pages', '-p <count:posint>')
+    .option('orientation', '-o <orientation:string>')
+    .option('exclude', '-x <tags:string>')
+    .option('unseen', '-u')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
     .action(async ({ session, options }, keywords) => {
       if (!keywords) {
         return '请输入要搜索的关键词哦~，比如，搜图 初音ミク'
       }
 
-      const sessionId = getSessionId(session)
-      log('info', `收到搜图请求`, { sessionId, keywords, options })
+      const sort = options.sort || 'popular'
+      const target = options.target || 'tag'
+      if (!sortMap[sort]) return invalidChoice('排序方式', sort, Object.keys(sortMap))
+      if (!targetMap[target]) return invalidChoice('搜索范围', target, Object.keys(targetMap))
+      if (options.duration && !durationMap[options.duration]) {
+        return invalidChoice('时间范围', options.duration, Object.keys(durationMap))
+      }
+      if (options.orientation && !orientations.includes(options.orientation as Orientation)) {
+        return invalidChoice('作品方向', options.orientation, orientations)
+      }
+      for (const date of [options.start, options.end]) {
+        if (date && !isValidDate(date)) return `无效的日期：${date}，格式为 YYYY-MM-DD，比如 2024-01-31`
+      }
+      if (options.start && options.end && options.start > options.end) {
+        return '开始日期不能晚于结束日期哦~'
+      }
+
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到搜图请求`, { sessionId, keywords, options })
+
+      try {
+        return await presentResults(session, sessionId, startState({
+          type: 'search',
+          keyword: keywords,
+          searchSort: sortMap[sort],
+          searchTarget: targetMap[target],
+          searchDuration: durationMap[options.duration],
+          startDate: options.start,
+          endDate: options.end,
+          filters: {
+            minBookmarks: options.bookmarks,
+            minViews: options.views,
+            minPages: options.pages,
+            orientation: options.orientation as Orientation,
+            excludeTags: options.exclude?.split(/[,，\s]+/).filter(Boolean),
+          },
+          skipShown: options.unseen ?? config.skipShown,
+        }), true)
+      } catch (error: any) {
+        log('error', '搜图过程发生错误', {
+          keywords,
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+          response: error.response?.data,
+          status: error.response?.status,
+          code: error.code,
+          address: error.address,
+          syscall: error.syscall,
+        })
+        return `搜索失败......${error.message || '请求失败，请重试'}`
+      }
+    })
+
+  // 排行榜配置：name 为「排行榜」命令使用的名称；带 cmd 的排行榜同时注册为独立命令以向后兼容，每日热门保留在首位
+  const rankings: RankingInfo[] = [
+    { name: '每日', cmd: '每日热门', alias: 'daily-ranking', mode: RankingMode.DAY, desc: '获取 Pixiv 每日排行榜' },
+    { name: '每周', cmd: '每周热门', alias: 'weekly-ranking', mode: RankingMode.WEEK, desc: '获取 Pixiv 每周排行榜' },
+    { name: '每月', cmd: '每月热门', alias: 'monthly-ranking', mode: RankingMode.MONTH, desc: '获取 Pixiv 每月排行榜' },
+    { name: '原创', cmd: '原创热门', alias: 'original-ranking', mode: RankingMode.WEEK_ORIGINAL, desc: '获取 Pixiv 原创每周榜' },
+    { name: '新人', cmd: '新人热门', alias: 'rookie-ranking', mode: RankingMode.WEEK_ROOKIE, desc: '获取 Pixiv 新人每周榜' },
+    { name: '男性', cmd: '男性热门', alias: 'male-ranking', mode: RankingMode.DAY_MALE, desc: '获取 Pixiv 男性向每日榜' },
+    { name: '女性', cmd: '女性热门', alias: 'female-ranking', mode: RankingMode.DAY_FEMALE, desc: '获取 Pixiv 女性向每日榜' },
+    { name: 'AI', cmd: 'AI 热门', alias: 'ai-ranking', mode: RankingMode.DAY_AI, desc: '获取 Pixiv AI 生成每日榜' },
+    { name: '漫画每日', alias: 'daily-manga', mode: 'day_manga', desc: '获取 Pixiv 漫画每日榜' },
+    { name: '漫画每周', alias: 'weekly-manga', mode: 'week_manga', desc: '获取 Pixiv 漫画每周榜' },
+    { name: '漫画每月', alias: 'monthly-manga', mode: 'month_manga', desc: '获取 Pixiv 漫画每月榜' },
+    { name: '漫画新人', alias: 'rookie-manga', mode: 'week_rookie_manga', desc: '获取 Pixiv 漫画新人每周榜' },
+    // R18 排行榜需要当前会话的内容策略允许 R18
+    { name: 'R18每日', cmd: 'R18 每日', alias: 'daily-r18', mode: RankingMode.DAY_R18, restrict: 'r18', desc: '获取 Pixiv R18 每日排行榜（需启用 R18）' },
+    { name: 'R18每周', cmd: 'R18 每周', alias: 'weekly-r18', mode: RankingMode.WEEK_R18, restrict: 'r18', desc: '获取 Pixiv R18 每周排行榜（需启用 R18）' },
+    { name: 'R18男性', alias: 'male-r18', mode: RankingMode.DAY_MALE_R18, restrict: 'r18', desc: '获取 Pixiv R18 男性向每日榜' },
+    { name: 'R18女性', alias: 'female-r18', mode: RankingMode.DAY_FEMALE_R18, restrict: 'r18', desc: '获取 Pixiv R18 女性向每日榜' },
+    { name: 'R18AI', alias: 'ai-r18', mode: RankingMode.DAY_R18_AI, restrict: 'r18', desc: '获取 Pixiv R18 AI 生成每日榜' },
+    { name: 'R18漫画每日', alias: 'daily-r18-manga', mode: 'day_r18_manga', restrict: 'r18', desc: '获取 Pixiv R18 漫画每日榜' },
+    { name: 'R18漫画每周', alias: 'weekly-r18-manga', mode: 'week_r18_manga', restrict: 'r18', desc: '获取 Pixiv R18 漫画每周榜' },
+    { name: 'R18G每周', alias: 'weekly-r18g', mode: 'week_r18g', restrict: 'r18g', desc: '获取 Pixiv R18-G 每周榜' },
+  ]
+
+  // 按名称、命令名、别名或 RankingMode 查找排行榜，忽略空格和大小写
+  const findRanking = (input: string) => {
+    const normalize = (value?: string) => value?.replace(/\s+/g, '').toLowerCase()
+    const name = normalize(input)
+    return rankings.find(item => [item.name, item.cmd, item.alias, item.mode].some(value => normalize(value) === name))
+  }
+
+  const rankingNames = () => rankings.map(item => item.name).join('、')
+
+  // 排行榜的显示名称，优先使用独立命令名
+  const getRankingLabel = (mode: string) => {
+    const ranking = findRanking(mode)
+    return ranking ? ranking.cmd || ranking.name : mode
+  }
+
+  // 当前会话的内容策略不允许该排行榜时返回提示
+  const checkRankingPolicy = (ranking: RankingInfo, policy: ContentPolicy) => {
+    if (ranking.restrict === 'r18g' && !(policy.allowR18 && policy.allowR18G)) {
+      return 'R18-G 内容已被禁用，如需使用请联系管理员通过"内容策略"命令开启'
+    }
+    if (ranking.restrict === 'r18' && !policy.allowR18) {
+      return 'R18 内容已被禁用，如需使用请联系管理员通过"内容策略"命令开启'
+    }
+  }
+
+  // 本地时区的今天，格式为 YYYY-MM-DD
+  const getToday = () => {
+    const now = new Date()
+    return new Date(now.getTime() - now.getTimezoneOffset() * Time.minute).toISOString().slice(0, 10)
+  }
+
+  // 排行榜命令的公共流程：--date 查看历史排行榜，--offset 跳过前 N 名，日期和偏移保存在分页状态中供下一页使用
+  const presentRanking = async (session: any, options: any, ranking: RankingInfo) => {
+    const denied = checkRankingPolicy(ranking, await getPolicy(session))
+    if (denied) return denied
+    if (options.date && !isValidDate(options.date)) {
+      return `无效的日期：${options.date}，格式为 YYYY-MM-DD，比如 2024-01-31`
+    }
+    if (options.date && options.date >= getToday()) {
+      return '只能查看今天以前的排行榜哦~'
+    }
+
+    const sessionId = getSessionId(session, options.scope)
+    log('info', `收到排行榜请求`, { sessionId, mode: ranking.mode, date: options.date, offset: options.offset })
+
+    try {
+      return await presentResults(session, sessionId, startState({
+        type: 'ranking',
+        rankingMode: ranking.mode,
+        rankingDate: options.date,
+        rankingOffset: options.offset,
+        skipShown: options.unseen ?? config.skipShown,
+      }), true)
+    } catch (error: any) {
+      log('error', '获取排行榜失败', {
+        sessionId,
+        mode: ranking.mode,
+        date: options.date,
+        message: error.message,
+        stack: error.stack,
+        response: error.response?.data,
+        status: error.response?.status,
+        code: error.code,
+        address: error.address,
+        syscall: error.syscall,
+      })
+      return `获取排行榜失败：${error.message || '请求失败，请重试'}`
+    }
+  }
+
+  // 统一的排行榜命令
+  log('info', '注册排行榜命令')
+  ctx.command('排行榜 [mode:string]', '获取指定类型的 Pixiv 排行榜')
+    .alias('pixiv-ranking')
+    .option('date', '<date:string>')
+    .option('offset', '<offset:natural>')
+    .option('unseen', '-u')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('ranking'))
+    .action(async ({ session, options }, mode) => {
+      const ranking = findRanking(mode || RankingMode.DAY)
+      if (!ranking) {
+        return `未知的排行榜：${mode}，可选：${rankingNames()}`
+      }
+      return presentRanking(session, options, ranking)
+    })
+
+  // 兼容保留的排行榜命令，等同于「排行榜 <名称>」
+  for (const ranking of rankings.filter(item => item.cmd)) {
+    log('info', `注册排行榜命令：${ranking.cmd} (alias: ${ranking.alias})`)
+    ctx.command(ranking.cmd, ranking.desc)
+      .alias(ranking.alias)
+      .option('date', '<date:string>')
+      .option('offset', '<offset:natural>')
+      .option('unseen', '-u')
+      .option('scope', '<scope>', { type: sessionScopes })
+      .before(rateLimit('ranking'))
+      .action(({ session, options }) => presentRanking(session, options, ranking))
+  }
+
+  // 推荐插画命令
+  log('info', '注册推荐插画命令')
+  ctx.command('推荐插画', '获取 Pixiv 个性化推荐插画')
+    .alias('pixiv 推荐')
+    .alias('推荐')
+    .option('unseen', '-u')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }) => {
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到推荐插画请求`, { sessionId })
+
+      try {
+        return await presentResults(session, sessionId, startState({
+          type: 'recommended',
+          skipShown: options.unseen ?? config.skipShown,
+        }), true)
+      } catch (error: any) {
+        log('error', '获取推荐插画失败', {
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+          response: error.response?.data,
+          status: error.response?.status,
+          code: error.code,
+          address: error.address,
+          syscall: error.syscall,
+        })
+        return `获取推荐失败：${error.message || '请求失败，请重试'}`
+      }
+    })
+
+  // 从来源的前 randomPages 页中随机抽取一张通过过滤的作品
+  const sampleIllust = async (state: SearchState, policy: ContentPolicy) => {
+    const source = resultSources[state.type]
+    const candidates: any[] = []
+    let page = await source.first(state)
+    for (let pages = 1; ; pages++) {
+      candidates.push(...filterIllusts(page.illusts, policy).filter(illust => matchSearchFilters(illust, state.filters)))
+      if (pages >= config.randomPages || !page.nextUrl) break
+      page = await (source.next ?? followNextUrl)(state, page.nextUrl)
+    }
+    log('info', '随机抽取候选', { type: state.type, candidates: candidates.length })
+    return {
+      illust: candidates.length ? candidates[Math.floor(Math.random() * candidates.length)] : null,
+      total: candidates.length,
+    }
+  }
+
+  // 随机插画命令
+  log('info', '注册随机命令')
+  ctx.command('随机 [query:text]', '从关键词、标签或排行榜中随机抽取一张插画')
+    .alias('pixiv-random')
+    .option('ranking', '-r <ranking:string>')
+    .option('target', '-t <type>')
+    .option('bookmarks', '-b <count:natural>')
+    .option('views', '-v <count:natural>')
+    .option('single', '-s')
+    .option('orientation', '-o <orientation>', { type: orientations })
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }, query) => {
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到随机请求`, { sessionId, query, options })
+
+      // 参数只作为关键词搜索，排行榜通过 -r 指定；两者都未指定时从每日热门中抽取
+      if (query && options.ranking) {
+        return '关键词和 -r 排行榜不能同时使用哦~'
+      }
+      const ranking = query ? null : findRanking(options.ranking || RankingMode.DAY)
+      if (!query && !ranking) {
+        return `未知的排行榜：${options.ranking}，可选：${rankingNames()}`
+      }
+      const policy = await getPolicy(session)
+      const denied = ranking && checkRankingPolicy(ranking, policy)
+      if (denied) return denied
+      const target = options.target || 'tag'
+      if (!ranking && !targetMap[target]) {
+        return `无效的搜索范围：${target}，可选：${Object.keys(targetMap).join('、')}`
+      }
+
+      const filters: SearchFilters = {
+        minBookmarks: options.bookmarks,
+        minViews: options.views,
+        maxPages: options.single ? 1 : undefined,
+        orientation: options.orientation,
+      }
+      const state = ranking
+        ? startState({ type: 'ranking', rankingMode: ranking.mode, filters })
+        : startState({
+          type: 'search',
+          keyword: query,
+          searchSort: sortMap.popular,
+          searchTarget: targetMap[target],
+          filters,
+        })
+
+      try {
+        const { illust, total } = await sampleIllust(state, policy)
+        if (!illust) {
+          return '没有找到符合条件的作品哦......请尝试放宽条件或更换关键词~'
+        }
+
+        // 没有分页状态时以本次来源新建，保证随后可以直接收藏
+        if (!await getState(sessionId)) {
+          await setState(sessionId, state)
+        }
+        await sendIllustPages(session, illust, getDefaultPages(illust), sessionId)
+        return `🎲 从 ${total} 件候选作品中随机抽取了一张`
+      } catch (error: any) {
+        log('error', '随机抽取失败', {
+          sessionId,
+          query,
+          message: error.message,
+          stack: error.stack,
+          status: error.response?.status,
+          code: error.code,
+        })
+        return `随机抽取失败：${error.message || '请求失败，请重试'}`
+      }
+    })
+
+  // 插画详情查询命令
+  log('info', '注册插画详情命令')
+  ctx.command('插画详情 <illustId:number>', '根据 ID 查询插画详情')
+    .alias('pixiv 详情')
+    .alias('详情')
+    .option('pages', '-p <range:string>')
+    .option('forward', '-f')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('detail'))
+    .action(async ({ session, options }, illustId: number) => {
+      if (!illustId) {
+        return '请输入要查询的插画 ID 哦~，比如：插画详情 12345678'
+      }
+
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到插画详情请求`, { sessionId, illustId })
+
+      try {
+        log('info', '获取插画详情', { illustId })
+
+        const result = await callPixiv('illustDetail', pixiv => pixiv.illustDetail({ illustId }))
+
+        log('info', '插画详情响应原始数据', {
+          status: result.status,
+          illustId: result.data.illust?.id,
+        })
+
+        const illust = result.data.illust
+
+        if (!illust) {
+          log('warn', '未找到插画', { illustId })
+          return '没有找到该 ID 的插画哦......请检查 ID 是否正确'
+        }
+
+        // 发送插画，指定 --pages 时发送对应的页
+        const range = options.pages
+          ? parsePageRange(options.pages, getPageCount(illust))
+          : { pages: getDefaultPages(illust), truncated: false }
+        if (typeof range === 'string') {
+          return range
+        }
+        await sendIllustPages(session, illust, range.pages, sessionId, options.forward ?? config.multiPageForward)
+
+        if (range.truncated) {
+          return `页数较多，仅发送了 ${range.pages.length} 页哦~`
+        }
+        return null
+      } catch (error: any) {
+        log('error', '获取插画详情失败', {
+          illustId,
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+          response: error.response?.data,
+          status: error.response?.status,
+          code: error.code,
+        })
+        return `获取插画详情失败：${error.message || '请求失败，请重试'}`
+      }
+    })
+
+  // 查看分页命令：查看最近一次展示的插画的指定页
+  log('info', '注册查看分页命令')
+  ctx.command('查看分页 <range:string>', '查看最近一次展示的插画的指定页，支持 N、A-B 或 all')
+    .alias('pixiv-pages')
+    .option('forward', '-f')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('detail'))
+    .action(async ({ session, options }, range) => {
+      if (!range) {
+        return '请输入要查看的页码哦~，比如：查看分页 3、查看分页 2-5、查看分页 all'
+      }
+
+      const sessionId = getSessionId(session, options.scope)
+      const state = await getState(sessionId)
+
+      if (!state || !state.lastIllustId) {
+        return '没有可以翻看的插画哦~请先使用"搜图"或"每日热门"等命令展示图片'
+      }
+
+      const illustId = state.lastIllustId
+      log('info', `收到查看分页请求`, { sessionId, illustId, range })
+
+      try {
+        const result = await callPixiv('illustDetail', pixiv => pixiv.illustDetail({ illustId }))
+        const illust = result.data.illust
+
+        if (!illust) {
+          return '没有找到该 ID 的插画哦......'
+        }
+
+        const parsed = parsePageRange(range, getPageCount(illust))
+        if (typeof parsed === 'string') {
+          return parsed
+        }
+        await sendIllustPages(session, illust, parsed.pages, sessionId, options.forward ?? config.multiPageForward, state.lastIllustCommand)
+
+        if (parsed.truncated) {
+          return `页数较多，仅发送了 ${parsed.pages.length} 页哦~`
+        }
+      } catch (error: any) {
+        log('error', '查看分页失败', {
+          sessionId,
+          illustId,
+          range,
+          message: error.message,
+          stack: error.stack,
+          status: error.response?.status,
+          code: error.code,
+        })
+        return `查看分页失败：${error.message || '请求失败，请重试'}`
+      }
+    })
+
+  // 按作者 ID 搜索作品命令
+  log('info', '注册搜作者命令')
+  ctx.command('搜作者 <author:string>', '根据作者 ID 或名称查看该作者的作品')
+    .alias('作者作品')
+    .option('type', '-t <type:string>')
+    .option('unseen', '-u')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }, author) => {
+      if (!author) {
+        return '请输入要查询的作者 ID 或名称哦~，比如：搜作者 12345678'
+      }
+      const type = (options.type || 'illust') as WorkType
+      if (!workTypes.includes(type)) return invalidChoice('作品类型', type, workTypes)
+
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到搜作者请求`, { sessionId, author, type })
+
+      try {
+        const found = await resolveAuthor(author)
+        if (!found) {
+          return `没有找到名为「${author}」的作者哦......`
+        }
+        const result = await presentResults(session, sessionId, startState({
+          type: 'author',
+          authorId: found.user.id,
+          authorType: type,
+          skipShown: options.unseen ?? config.skipShown,
+        }), true)
+        return `${found.user.name} (${found.user.id}) 的${type === 'manga' ? '漫画' : '插画'}：${result}${describeCandidates(found.candidates)}`
+      } catch (error: any) {
+        log('error', '获取作者作品失败', {
+          author,
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+          response: error.response?.data,
+          status: error.response?.status,
+          code: error.code,
+        })
+        return `获取作者作品失败：${error.message || '请求失败，请重试'}`
+      }
+    })
+
+  // 以图搜图服务，创建失败时命令会提示未配置
+  const reverseSearch = (() => {
+    try {
+      return createReverseSearchProvider(config.reverseSearchProvider, {
+        apiKey: config.sauceNaoApiKey,
+        minSimilarity: config.reverseSearchMinSimilarity,
+        maxResults: 5,
+        requestConfig: apiRequestConfig,
+      })
+    } catch (error: any) {
+      log('warn', '创建以图搜图服务失败', { provider: String(config.reverseSearchProvider), message: error.message })
+      return null
+    }
+  })()
+
+  // 读取消息或被引用消息中的第一张图片或第一个文件
+  const getMessageResource = (session: any, type: 'img' | 'file'): string | undefined => {
+    for (const elements of [session.elements, session.quote?.elements]) {
+      const element = h.select(elements || [], type)[0]
+      if (element?.attrs.src) return element.attrs.src
+    }
+  }
+
+  // 以图搜图命令
+  log('info', '注册以图搜图命令')
+  ctx.command('以图搜图', '根据消息或引用消息中的图片查找 Pixiv 出处')
+    .alias('pixiv-source')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }) => {
+      if (!reverseSearch) {
+        return '以图搜图服务未配置，请联系管理员检查 reverseSearchProvider 配置'
+      }
+      const src = getMessageResource(session, 'img')
+      if (!src) {
+        return '请在消息中附带图片，或引用一条带图片的消息哦~'
+      }
+
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到以图搜图请求`, { sessionId, provider: reverseSearch.name })
 
       try {
-        const pixiv = await initPixiv()
-
-        // 解析搜索选项
-        const searchSort = sortMap[options.sort || 'popular']
-        const searchTarget = targetMap[options.target || 'tag']
-
-        // 构建搜索参数
-        const searchParams: any = {
-          word: keywords,
-          offset: 0,
-          searchTarget,
-          sort: searchSort,
+        const file = await ctx.http.file(src)
+        const policy = await getPolicy(session)
+        const result = await resolveReverseSearch(reverseSearch, {
+          data: Buffer.from(file.data),
+          mime: file.type,
+          filename: file.filename,
+        }, async (illustId) => {
+          const detail = await callPixiv('illustDetail', pixiv => pixiv.illustDetail({ illustId }))
+          return detail.data.illust
+        }, illust => illustFilter(illust, policy).length === 0)
+
+        if (result.type === 'empty') {
+          return `没有找到相似度高于 ${config.reverseSearchMinSimilarity}% 的 Pixiv 作品哦......`
         }
-
-        // 时间范围参数（仅人气排序有效）
-        if (options.duration) {
-          searchParams.searchAim = options.duration
+        if (result.type === 'missing') {
+          return `找到了作品 ${result.match.illustId}（相似度 ${result.match.similarity}%），但该作品可能已被删除`
+        }
+        if (result.type === 'filtered') {
+          return `找到了作品 ${result.match.illustId}（相似度 ${result.match.similarity}%），但该作品不符合当前的内容策略`
         }
 
-        log('info', '执行搜索', {
-          keyword: keywords,
-          offset: 0,
-          searchTarget,
-          sort: searchSort,
-          duration: options.duration,
-        })
-
-        const result = await pixiv.searchIllust(searchParams)
+        const { match: best, illust, others } = result
+        // 没有分页状态时以该作品的相似作品新建，之后可以收藏或通过下一页查看相似作品
+        if (!await getState(sessionId)) {
+          await setState(sessionId, startState({ type: 'related', relatedId: illust.id }))
+        }
+        await sendIllust(session, illust, 0, sessionId)
 
-        log('info', '搜索响应原始数据', {
-          status: result.status,
-          illustsCount: result.data.illusts?.length || 0,
-          nextUrl: result.data.next_url,
+        const otherText = others.length
+          ? `\n其他可能的结果：${others.map(match => `${match.illustId}（${match.similarity}%）`).join('、')}`
+          : ''
+        return `相似度 ${best.similarity}%，插画 ID: ${illust.id}${otherText}`
+      } catch (error: any) {
+        log('error', '以图搜图失败', {
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+          status: error.response?.status,
+          code: error.code,
         })
+        return `以图搜图失败：${error.message || '请求失败，请重试'}`
+      }
+    })
 
-        const illusts = filterIllusts(result.data.illusts || [])
-
-        if (illusts.length === 0) {
-          log('warn', '未找到相关图片', { keywords })
-          return '没有找到相关的图片哦......请尝试更换关键词或者检查拼写~'
-        }
+  // 相似作品命令
+  log('info', '注册相似命令')
+  ctx.command('相似 [illustId:posint]', '查看与指定插画或最近一次展示的插画相似的作品')
+    .alias('pixiv-related')
+    .option('unseen', '-u')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }, illustId) => {
+      const sessionId = getSessionId(session, options.scope)
+      const relatedId = illustId || (await getState(sessionId))?.lastIllustId
+      if (!relatedId) {
+        return '请输入插画 ID 哦~，比如：相似 12345678；也可以先展示一张插画再使用"相似"'
+      }
+      log('info', `收到相似作品请求`, { sessionId, relatedId })
 
-        // 保存搜索状态
-        searchStates.set(sessionId, {
-          type: 'search',
-          keyword: keywords,
-          searchTarget,
-          searchSort,
-          offset: illusts.length,
-          nextUrl: result.data.next_url || null,
+      try {
+        return await presentResults(session, sessionId, startState({
+          type: 'related',
+          relatedId,
+          skipShown: options.unseen ?? config.skipShown,
+        }), true)
+      } catch (error: any) {
+        log('error', '获取相似作品失败', {
+          relatedId,
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+          status: error.response?.status,
+          code: error.code,
         })
-        log('info', '搜索状态已保存', { sessionId, state: searchStates.get(sessionId) })
+        return `获取相似作品失败：${error.message || '请求失败，请重试'}`
+      }
+    })
 
-        // 发送图片
-        const toSend = illusts.slice(0, config.searchResultCount)
-        log('info', `准备发送 ${toSend.length} 张图片`)
-        for (const illust of toSend) {
-          await sendIllust(session, illust)
-        }
+  // 作者信息命令
+  log('info', '注册作者信息命令')
+  ctx.command('作者信息 <author:string>', '根据作者 ID 或名称查看作者资料')
+    .alias('pixiv-user')
+    .before(rateLimit('detail'))
+    .action(async ({ session }, author) => {
+      if (!author) {
+        return '请输入要查询的作者 ID 或名称哦~，比如：作者信息 12345678'
+      }
+      log('info', `收到作者信息请求`, { userId: session.userId, author })
 
-        if (illusts.length >= config.searchResultCount) {
-          return `这里是 ${toSend.length} 张图片，跟我说"下一页"查看更多~`
+      try {
+        const found = await resolveAuthor(author)
+        if (!found) {
+          return `没有找到名为「${author}」的作者哦......`
         }
+        const { user, profile } = found
+        const avatarUrl = user.profile_image_urls?.medium
+        const avatar = avatarUrl
+          ? await imageCache.get(avatarUrl, () => downloadImage(avatarUrl)).catch((error: any) => {
+            log('warn', '下载作者头像失败', { userId: user.id, message: error.message })
+            return null
+          })
+          : null
+
+        const comment = user.comment?.trim()
+        const lines = [
+          `${user.name}（@${user.account}）`,
+          `ID: ${user.id}`,
+          comment ? `简介：${comment.length > 200 ? `${comment.slice(0, 200)}...` : comment}` : null,
+          `作品：插画 ${profile?.total_illusts ?? 0} · 漫画 ${profile?.total_manga ?? 0} · 小说 ${profile?.total_novels ?? 0}`,
+          // 接口不提供粉丝数，total_follow_users 是作者自己关注的人数，因此不显示
+          `好P友 ${profile?.total_mypixiv_users ?? 0} · 公开收藏 ${profile?.total_illust_bookmarks_public ?? 0}`,
+          `主页：https://www.pixiv.net/users/${user.id}`,
+          profile?.webpage ? `网站：${profile?.webpage}` : null,
+          profile?.twitter_url ? `Twitter：${profile?.twitter_url}` : null,
+        ].filter(Boolean)
+
+        return [
+          ...(avatar ? [h.image(avatar, 'image/jpeg')] : []),
+          h.text(lines.join('\n') + describeCandidates(found.candidates)),
+        ]
       } catch (error: any) {
-        log('error', '搜图过程发生错误', {
-          keywords,
-          sessionId,
+        log('error', '获取作者信息失败', {
+          author,
           message: error.message,
           stack: error.stack,
-          response: error.response?.data,
           status: error.response?.status,
           code: error.code,
-          address: error.address,
-          syscall: error.syscall,
         })
-        return `搜索失败......${error.message || '请求失败，请重试'}`
+        return `获取作者信息失败：${error.message || '请求失败，请重试'}`
       }
     })
 
-  // 每日热门排行榜命令（保留向后兼容）
-  log('info', '注册每日热门命令')
-  ctx.command('每日热门', '获取 Pixiv 每日排行榜')
-    .alias('daily-ranking')
-    .action(async ({ session }) => {
-      const sessionId = getSessionId(session)
-      log('info', `收到每日热门请求`, { sessionId })
+  /** 单次导入的收藏数量上限 */
+  const MAX_IMPORT_FAVORITES = 1000
 
-      try {
-        const pixiv = await initPixiv()
+  // 将旧版收藏表中的记录迁移到 pixiv_favorite_items，重复的收藏只保留最早的一条
+  const migrateFavorites = async () => {
+    try {
+      const rows: any[] = await (ctx.database as any).get('pixiv_favorites', {})
+      if (rows.length === 0) return
 
-        log('info', '获取每日排行榜', { mode: RankingMode.DAY })
+      const favorites = new Map<string, any>()
+      for (const row of rows.sort((a, b) => a.createdAt - b.createdAt)) {
+        const key = `${row.platform}:${row.userId}:${row.illustId}`
+        if (!favorites.has(key)) favorites.set(key, row)
+      }
+      await (ctx.database as any).upsert('pixiv_favorite_items', [...favorites.values()].map(row => ({
+        platform: row.platform,
+        userId: row.userId,
+        illustId: row.illustId,
+        createdAt: new Date(row.createdAt),
+      })), ['platform', 'userId', 'illustId'])
+      await (ctx.database as any).remove('pixiv_favorites', { id: rows.map(row => row.id) })
+      log('info', '旧版收藏已迁移', { rows: rows.length, favorites: favorites.size })
+    } catch (error: any) {
+      log('error', '迁移旧版收藏失败', { message: error.message, stack: error.stack })
+    }
+  }
 
-        const result = await pixiv.illustRanking({
-          mode: RankingMode.DAY,
-        })
+  ctx.on('ready', migrateFavorites)
 
-        log('info', '排行榜响应原始数据', {
-          status: result.status,
-          illustsCount: result.data.illusts?.length || 0,
-          nextUrl: result.data.next_url,
-        })
+  // 后台按批刷新收藏快照，优先处理尚未获取和最久未刷新的作品，同一作品的多个收藏共享一次请求
+  let refreshingFavorites = false
+  const refreshStaleFavorites = async () => {
+    if (refreshingFavorites || config.favoriteRefreshBatchSize === 0) return
+    refreshingFavorites = true
+    try {
+      const rows: Pick<Favorite, 'illustId' | 'checkedAt'>[] = await (ctx.database as any).get('pixiv_favorite_items', {
+        $or: [
+          { checkedAt: null },
+          { checkedAt: { $lt: new Date(Date.now() - config.favoriteSnapshotTTL) } },
+        ],
+      }, ['illustId', 'checkedAt'])
+      const illustIds = [...new Set(rows
+        .sort((a, b) => (a.checkedAt?.getTime() ?? 0) - (b.checkedAt?.getTime() ?? 0))
+        .map(row => row.illustId))]
+        .slice(0, config.favoriteRefreshBatchSize)
+      if (illustIds.length === 0) return
+
+      const statuses = await refreshFavorites(illustIds)
+      log('info', '收藏快照已刷新', { count: illustIds.length, missing: statuses.filter(status => status.missing).length })
+    } catch (error: any) {
+      log('warn', '刷新收藏快照失败', { message: error.message })
+    } finally {
+      refreshingFavorites = false
+    }
+  }
+  ctx.on('ready', refreshStaleFavorites)
+  ctx.setInterval(refreshStaleFavorites, config.favoriteRefreshInterval)
 
-        const illusts = filterIllusts(result.data.illusts || [])
+  // 收藏按平台和用户归属，不随分页状态的共享范围变化
+  const favoriteOwner = (session: any) => ({ platform: session.platform, userId: session.userId })
 
-        if (illusts.length === 0) {
-          log('warn', '排行榜无数据')
-          return '暂无排行榜数据哦......'
-        }
+  const getFavorites = async (session: any, folder?: string): Promise<Favorite[]> => {
+    const query = folder === undefined ? favoriteOwner(session) : { ...favoriteOwner(session), folder }
+    return await (ctx.database as any).get('pixiv_favorite_items', query)
+  }
 
-        // 保存搜索状态
-        searchStates.set(sessionId, {
-          type: 'ranking',
-          rankingMode: RankingMode.DAY,
-          offset: illusts.length,
-          nextUrl: result.data.next_url || null,
-        })
-        log('info', '排行榜状态已保存', { sessionId })
+  const getFavorite = async (session: any, illustId: number): Promise<Favorite | undefined> => {
+    const [favorite] = await (ctx.database as any).get('pixiv_favorite_items', { ...favoriteOwner(session), illustId })
+    return favorite
+  }
 
-        // 发送图片
-        const toSend = illusts.slice(0, config.searchResultCount)
-        log('info', `准备发送 ${toSend.length} 张热门图片`)
-        for (const illust of toSend) {
-          await sendIllust(session, illust)
+  // 添加收藏，依靠唯一索引判断是否已经收藏过，已存在时返回 false；没有快照时之后查看收藏时补全
+  const addFavorite = async (session: any, record: FavoriteRecord, snapshot?: FavoriteSnapshot) => {
+    try {
+      await (ctx.database as any).create('pixiv_favorite_items', {
+        ...favoriteOwner(session),
+        ...snapshot,
+        illustId: record.illustId,
+        folder: record.folder,
+        note: record.note,
+        createdAt: record.createdAt || new Date(),
+      })
+      return true
+    } catch (error) {
+      if (RuntimeError.check(error, 'duplicate-entry')) return false
+      throw error
+    }
+  }
+
+  const bookmarkLabel = (restrict: BookmarkVisibility) => restrict === 'private' ? '非公开书签' : '公开书签'
+
+  // 按 bookmarkSync 将收藏同步为 Bot 账号的书签；已经是书签的作品保持不变，也不会在取消收藏时删除
+  // 返回附加在回复中的说明，同步失败不影响本地收藏
+  const syncBookmarkAdd = async (illust: any) => {
+    if (config.bookmarkSync === 'off' || !illust || illust.is_bookmarked) return ''
+    try {
+      await callPixiv('illustBookmarkAdd', pixiv => pixiv.illustBookmarkAdd({
+        illustId: illust.id,
+        restrict: config.bookmarkSync as BookmarkRestrict,
+      }))
+      await (ctx.database as any).upsert('pixiv_synced_bookmarks', [{
+        id: illust.id,
+        restrict: config.bookmarkSync,
+        createdAt: new Date(),
+      }])
+      log('info', '已同步 Pixiv 书签', { illustId: illust.id, restrict: config.bookmarkSync })
+      return `，已同步为 Pixiv ${bookmarkLabel(config.bookmarkSync as BookmarkVisibility)}`
+    } catch (error: any) {
+      log('warn', '同步 Pixiv 书签失败', { illustId: illust.id, message: error.message })
+      return `（同步 Pixiv 书签失败：${error.message}）`
+    }
+  }
+
+  // 没有任何用户收藏该作品时，删除由同步添加的书签
+  const syncBookmarkDelete = async (illustId: number) => {
+    if (config.bookmarkSync === 'off') return
+    try {
+      const [synced] = await (ctx.database as any).get('pixiv_synced_bookmarks', { id: illustId })
+      if (!synced) return
+      const favorites = await (ctx.database as any).get('pixiv_favorite_items', { illustId }, ['id'])
+      if (favorites.length > 0) return
+
+      await callPixiv('illustBookmarkDelete', pixiv => pixiv.illustBookmarkDelete({ illustId: String(illustId) }))
+      await (ctx.database as any).remove('pixiv_synced_bookmarks', { id: illustId })
+      log('info', '已删除同步的 Pixiv 书签', { illustId })
+    } catch (error: any) {
+      log('warn', '删除同步的 Pixiv 书签失败', { illustId, message: error.message })
+    }
+  }
+
+  // 收藏命令
+  log('info', '注册收藏命令')
+  ctx.command('收藏 [illustId:posint]', '收藏指定 ID 或最近一次展示的插画')
+    .alias('fav')
+    .option('folder', '-f <folder:string>')
+    .option('note', '-n <note:string>')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .action(async ({ session, options }, targetId) => {
+      const sessionId = getSessionId(session, options.scope)
+      const state = targetId ? null : await getState(sessionId)
+
+      if (!targetId && !state?.lastIllustId) {
+        return '没有可收藏的图片哦~请先使用"搜图"或"每日热门"等命令展示图片，或通过"历史"查看最近展示的插画 ID'
+      }
+
+      const illustId = targetId || state.lastIllustId
+
+      try {
+        const folder = parseFolder(options.folder)
+        const note = parseNote(options.note)
+        const status = await fetchIllustStatus(illustId)
+        if (status.missing && !await getFavorite(session, illustId)) {
+          return `插画 ${illustId} 不存在或已被删除，无法收藏哦~`
+        }
+        const snapshot = status.illust ? toFavoriteSnapshot(status.illust) : undefined
+        if (!status.missing && await addFavorite(session, { illustId, folder, note }, snapshot)) {
+          log('info', '收藏成功', { sessionId, illustId, folder })
+          const synced = await syncBookmarkAdd(status.illust)
+          return `收藏成功！插画 ID: ${illustId}${folder ? `，收藏夹：${folder}` : ''}${synced}`
         }
 
-        return `这里是 ${toSend.length} 张热门图片，跟我说"下一页"查看更多~`
+        // 已经收藏过时刷新快照，指定的收藏夹和备注覆盖原有设置
+        await saveIllustStatus(status)
+        const update: Partial<Favorite> = {}
+        if (options.folder !== undefined) update.folder = folder
+        if (options.note !== undefined) update.note = note
+        if (Object.keys(update).length === 0) {
+          return '这张图片已经收藏过了哦~'
+        }
+        await (ctx.database as any).set('pixiv_favorite_items', { ...favoriteOwner(session), illustId }, update)
+        const changes = [
+          update.folder !== undefined && `收藏夹「${folderLabel(folder)}」`,
+          update.note !== undefined && (note ? '备注' : '清空备注'),
+        ].filter(Boolean)
+        return `这张图片已经收藏过了，已更新为${changes.join('，')}`
       } catch (error: any) {
-        log('error', '获取排行榜失败', {
+        log('error', '收藏失败', {
           sessionId,
+          illustId,
           message: error.message,
           stack: error.stack,
-          response: error.response?.data,
-          status: error.response?.status,
-          code: error.code,
-          address: error.address,
-          syscall: error.syscall,
         })
-        return `获取排行榜失败：${error.message || '请求失败，请重试'}`
+        return `收藏失败：${error.message || '请重试'}`
       }
     })
 
-  // 排行榜命令配置
-  const rankingCommands = [
-    { cmd: '每周热门', alias: 'weekly-ranking', mode: RankingMode.WEEK, desc: '获取 Pixiv 每周排行榜' },
-    { cmd: '每月热门', alias: 'monthly-ranking', mode: RankingMode.MONTH, desc: '获取 Pixiv 每月排行榜' },
-    { cmd: '原创热门', alias: 'original-ranking', mode: RankingMode.WEEK_ORIGINAL, desc: '获取 Pixiv 原创每周榜' },
-    { cmd: '新人热门', alias: 'rookie-ranking', mode: RankingMode.WEEK_ROOKIE, desc: '获取 Pixiv 新人每周榜' },
-    { cmd: '男性热门', alias: 'male-ranking', mode: RankingMode.DAY_MALE, desc: '获取 Pixiv 男性向每日榜' },
-    { cmd: '女性热门', alias: 'female-ranking', mode: RankingMode.DAY_FEMALE, desc: '获取 Pixiv 女性向每日榜' },
-    { cmd: 'AI 热门', alias: 'ai-ranking', mode: RankingMode.DAY_AI, desc: '获取 Pixiv AI 生成每日榜' },
-  ]
+  // 取消收藏命令
+  log('info', '注册取消收藏命令')
+  ctx.command('取消收藏 [illustId:posint]', '取消收藏指定 ID 或最近一次展示的插画')
+    .alias('unfav')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .action(async ({ session, options }, targetId) => {
+      const sessionId = getSessionId(session, options.scope)
+      const state = targetId ? null : await getState(sessionId)
+
+      if (!targetId && !state?.lastIllustId) {
+        return '请输入要取消收藏的插画 ID，比如，取消收藏 12345678'
+      }
 
-  // 批量注册排行榜命令
-  for (const { cmd, alias, mode, desc } of rankingCommands) {
-    log('info', `注册排行榜命令：${cmd} (alias: ${alias})`)
-    ctx.command(cmd, desc)
-      .alias(alias)
-      .action(async ({ session }) => {
-        const sessionId = getSessionId(session)
-        log('info', `收到 ${cmd} 请求`, { sessionId, mode })
+      const illustId = targetId || state.lastIllustId
 
-        try {
-          const pixiv = await initPixiv()
+      try {
+        const favorite = await getFavorite(session, illustId)
+        if (!favorite) {
+          return `没有收藏过插画 ${illustId} 哦~`
+        }
+        await (ctx.database as any).remove('pixiv_favorite_items', { id: favorite.id })
+        log('info', '取消收藏成功', { sessionId, illustId })
+        await syncBookmarkDelete(illustId)
+        return `已取消收藏插画 ${illustId}`
+      } catch (error: any) {
+        log('error', '取消收藏失败', { sessionId, illustId, message: error.message, stack: error.stack })
+        return `取消收藏失败：${error.message || '请重试'}`
+      }
+    })
 
-          log('info', '获取排行榜', { mode })
+  // 收藏备注命令
+  log('info', '注册收藏备注命令')
+  ctx.command('收藏备注 <illustId:posint> [note:text]', '设置收藏的备注，不填写备注时清空')
+    .alias('fav-note')
+    .action(async ({ session }, illustId, note) => {
+      if (!illustId) {
+        return '请输入插画 ID，比如，收藏备注 12345678 很喜欢的配色'
+      }
 
-          const result = await pixiv.illustRanking({
-            mode,
-          })
+      try {
+        const favorite = await getFavorite(session, illustId)
+        if (!favorite) {
+          return `没有收藏过插画 ${illustId} 哦~请先使用"收藏 ${illustId}"`
+        }
+        const value = parseNote(note)
+        await (ctx.database as any).set('pixiv_favorite_items', { id: favorite.id }, { note: value })
+        return value ? `已更新插画 ${illustId} 的备注` : `已清空插画 ${illustId} 的备注`
+      } catch (error: any) {
+        log('error', '设置收藏备注失败', { illustId, message: error.message, stack: error.stack })
+        return `设置备注失败：${error.message || '请重试'}`
+      }
+    })
 
-          log('info', '排行榜响应原始数据', {
-            status: result.status,
-            illustsCount: result.data.illusts?.length || 0,
-            nextUrl: result.data.next_url,
-          })
+  // 按快照中的标签和作者筛选收藏，尚未获取快照的收藏不会匹配
+  const matchFavorite = (favorite: Favorite, tag?: string, author?: string) => {
+    if (tag) {
+      const keyword = tag.toLowerCase()
+      if (!(favorite.tags || []).some(name => name.toLowerCase().includes(keyword))) return false
+    }
+    if (author) {
+      if (/^\d+$/.test(author)) return favorite.authorId === Number(author)
+      return favorite.authorName.toLowerCase().includes(author.toLowerCase())
+    }
+    return true
+  }
 
-          const illusts = filterIllusts(result.data.illusts || [])
+  // 收藏列表中的一行，只使用快照；内容策略不允许的作品不显示标题
+  const formatFavorite = (favorite: Favorite, policy: ContentPolicy) => {
+    const restricted = (favorite.xRestrict === 1 && !policy.allowR18) ||
+      (favorite.xRestrict === 2 && !policy.allowR18G) ||
+      (favorite.aiType === 2 && !policy.allowAI)
+    const info = !favorite.checkedAt
+      ? '尚未获取作品信息'
+      : restricted ? '受内容策略限制的作品' : `${favorite.title || '无标题'} - ${favorite.authorName || '未知'}`
+    const mark = favorite.unavailable ? '［已失效］' : ''
+    const note = favorite.note ? `｜${favorite.note}` : ''
+    return `${mark}${info}（ID: ${favorite.illustId}，${formatTime(favorite.createdAt)}）${note}`
+  }
 
-          if (illusts.length === 0) {
-            log('warn', '排行榜无数据', { mode })
-            return '暂无排行榜数据哦......'
+  // 收藏夹命令：不指定名称时列出所有收藏夹，指定时按页列出其中的收藏
+  log('info', '注册收藏夹命令')
+  ctx.command('收藏夹 [folder:string] [page:posint]', '查看收藏夹列表或某个收藏夹中的收藏')
+    .alias('fav-folders')
+    .action(async ({ session }, name, page = 1) => {
+      const pageSize = 10
+      try {
+        if (name === undefined) {
+          const favorites = await getFavorites(session)
+          if (favorites.length === 0) {
+            return '你还没有收藏任何插画哦~使用"收藏"命令来收藏图片吧！'
           }
-
-          // 保存搜索状态
-          searchStates.set(sessionId, {
-            type: 'ranking',
-            rankingMode: mode,
-            offset: illusts.length,
-            nextUrl: result.data.next_url || null,
-          })
-          log('info', '排行榜状态已保存', { sessionId })
-
-          // 发送图片
-          const toSend = illusts.slice(0, config.searchResultCount)
-          log('info', `准备发送 ${toSend.length} 张热门图片`)
-          for (const illust of toSend) {
-            await sendIllust(session, illust)
+          const counts = new Map<string, number>()
+          for (const favorite of favorites) {
+            counts.set(favorite.folder, (counts.get(favorite.folder) || 0) + 1)
           }
+          return [
+            `你的收藏夹（共 ${favorites.length} 张插画）：`,
+            ...[...counts].sort(([a], [b]) => a.localeCompare(b)).map(([folder, count]) => `- ${folderLabel(folder)}（${count}）`),
+            '使用"收藏夹 <名称>"查看收藏夹中的插画，"收藏 <ID> -f <名称>"移动收藏',
+          ].join('\n')
+        }
 
-          return `这里是 ${toSend.length} 张热门图片，跟我说"下一页"查看更多~`
-        } catch (error: any) {
-          log('error', '获取排行榜失败', {
-            sessionId,
-            mode,
-            message: error.message,
-            stack: error.stack,
-            response: error.response?.data,
-            status: error.response?.status,
-            code: error.code,
-            address: error.address,
-            syscall: error.syscall,
-          })
-          return `获取排行榜失败：${error.message || '请求失败，请重试'}`
+        const folder = parseFolder(name)
+        const rows: Favorite[] = await (ctx.database as any)
+          .select('pixiv_favorite_items')
+          .where({ ...favoriteOwner(session), folder })
+          .orderBy('createdAt', 'desc')
+          .limit(pageSize)
+          .offset((page - 1) * pageSize)
+          .execute()
+        if (rows.length === 0) {
+          return page > 1 ? '没有更多收藏了哦~' : `收藏夹「${folderLabel(folder)}」中还没有插画哦~`
         }
-      })
-  }
+        const policy = await getPolicy(session)
+        return [
+          `收藏夹「${folderLabel(folder)}」（第 ${page} 页）：`,
+          ...rows.map((row, index) => `${(page - 1) * pageSize + index + 1}. ${formatFavorite(row, policy)}`),
+          `使用"查询最爱 -f ${folderLabel(folder)}"查看图片`,
+        ].join('\n')
+      } catch (error: any) {
+        log('error', '查询收藏夹失败', { name, message: error.message, stack: error.stack })
+        return `查询收藏夹失败：${error.message || '请重试'}`
+      }
+    })
 
-  // R18 排行榜命令（需要 enableR18 配置）
-  const r18RankingCommands = [
-    { cmd: 'R18 每日', alias: 'daily-r18', mode: RankingMode.DAY_R18, desc: '获取 Pixiv R18 每日排行榜（需启用 R18）' },
-    { cmd: 'R18 每周', alias: 'weekly-r18', mode: RankingMode.WEEK_R18, desc: '获取 Pixiv R18 每周排行榜（需启用 R18）' },
-  ]
+  // 查询最爱命令：默认发送图片，-l 只根据快照列出文字，不请求 Pixiv
+  log('info', '注册查询最爱命令')
+  ctx.command('查询最爱 [page:posint]', '查看已收藏的插画列表')
+    .alias('favorites')
+    .option('folder', '-f <folder:string>')
+    .option('tag', '-t <tag:string>')
+    .option('author', '-a <author:string>')
+    .option('list', '-l')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }, page = 1) => {
+      const sessionId = getSessionId(session, options.scope)
+      log('info', `收到查询最爱请求`, { sessionId, folder: options.folder, tag: options.tag, author: options.author })
 
-  for (const { cmd, alias, mode, desc } of r18RankingCommands) {
-    log('info', `注册 R18 排行榜命令：${cmd} (alias: ${alias})`)
-    ctx.command(cmd, desc)
-      .alias(alias)
-      .action(async ({ session }) => {
-        if (!config.enableR18) {
-          return 'R18 内容已被禁用，如需使用请联系管理员配置 enableR18 选项'
+      try {
+        const folder = options.folder === undefined ? undefined : parseFolder(options.folder)
+        const favorites = (await getFavorites(session, folder))
+          .filter(favorite => matchFavorite(favorite, options.tag, options.author))
+          // 按收藏时间倒序排列
+          .sort((a, b) => +b.createdAt - +a.createdAt)
+        if (favorites.length === 0 && (options.tag || options.author)) {
+          return '没有符合条件的收藏哦~刚导入的收藏需要在获取作品信息后才能按标签和作者筛选'
+        }
+        if (favorites.length === 0 && folder !== undefined) {
+          return `收藏夹「${folderLabel(folder)}」中还没有插画哦~`
         }
 
-        const sessionId = getSessionId(session)
-        log('info', `收到 ${cmd} 请求`, { sessionId, mode })
-
-        try {
-          const pixiv = await initPixiv()
+        if (options.list) {
+          const pageSize = 10
+          const rows = favorites.slice((page - 1) * pageSize, page * pageSize)
+          if (rows.length === 0) {
+            return page > 1 ? '没有更多收藏了哦~' : resultSources.favorites.emptyText
+          }
+          const policy = await getPolicy(session)
+          return [
+            `你的收藏（第 ${page}/${Math.ceil(favorites.length / pageSize)} 页，共 ${favorites.length} 张）：`,
+            ...rows.map((row, index) => `${(page - 1) * pageSize + index + 1}. ${formatFavorite(row, policy)}`),
+          ].join('\n')
+        }
 
-          log('info', '获取 R18 排行榜', { mode })
+        // 图片模式每页读取 searchResultCount 件收藏，指定页码时从对应位置开始
+        const favoriteIds = favorites.map(f => f.illustId)
+        const start = (page - 1) * config.searchResultCount
+        if (start > 0 && start >= favoriteIds.length) {
+          return '没有更多收藏了哦~'
+        }
 
-          const result = await pixiv.illustRanking({
-            mode,
-          })
+        const state = startState({ type: 'favorites', favoriteIds })
+        return await presentResults(session, sessionId, start > 0 ? { ...state, nextUrl: String(start) } : state, true)
+      } catch (error: any) {
+        log('error', '查询最爱失败', {
+          sessionId,
+          message: error.message,
+          stack: error.stack,
+        })
+        return `查询失败：${error.message || '请重试'}`
+      }
+    })
 
-          log('info', 'R18 排行榜响应原始数据', {
-            status: result.status,
-            illustsCount: result.data.illusts?.length || 0,
-            nextUrl: result.data.next_url,
-          })
+  // 导出收藏命令
+  log('info', '注册导出收藏命令')
+  ctx.command('导出收藏 [format:string]', '将收藏导出为 JSON 或 CSV 文件')
+    .alias('fav-export')
+    .option('folder', '-f <folder:string>')
+    .action(async ({ session, options }, format = 'json') => {
+      if (!favoriteFormats.includes(format as FavoriteFormat)) {
+        return invalidChoice('导出格式', format, favoriteFormats)
+      }
 
-          const illusts = result.data.illusts || []
+      try {
+        const folder = options.folder === undefined ? undefined : parseFolder(options.folder)
+        const favorites = await getFavorites(session, folder)
+        if (favorites.length === 0) {
+          return '没有可以导出的收藏哦~'
+        }
 
-          if (illusts.length === 0) {
-            log('warn', 'R18 排行榜无数据', { mode })
-            return '暂无排行榜数据哦......'
-          }
+        const records = favorites
+          .sort((a, b) => +a.createdAt - +b.createdAt)
+          .map(({ illustId, folder, note, createdAt }) => ({ illustId, folder, note, createdAt }))
+        const content = serializeFavorites(records, format as FavoriteFormat)
+        const mime = format === 'csv' ? 'text/csv' : 'application/json'
+        await session.send(h.file(Buffer.from(content), mime, { title: `pixiv-favorites.${format}` }))
+        log('info', '导出收藏成功', { userId: session.userId, count: records.length, format })
+        return `已导出 ${records.length} 条收藏`
+      } catch (error: any) {
+        log('error', '导出收藏失败', { message: error.message, stack: error.stack })
+        return `导出收藏失败：${error.message || '请重试'}`
+      }
+    })
 
-          // 保存搜索状态
-          searchStates.set(sessionId, {
-            type: 'ranking',
-            rankingMode: mode,
-            offset: illusts.length,
-            nextUrl: result.data.next_url || null,
-          })
-          log('info', 'R18 排行榜状态已保存', { sessionId })
+  // 导入收藏命令：读取消息或引用消息中的文件，没有文件时读取命令后的文本
+  log('info', '注册导入收藏命令')
+  ctx.command('导入收藏 [content:text]', '从导出的 JSON 或 CSV 导入收藏')
+    .alias('fav-import')
+    .option('folder', '-f <folder:string>')
+    .action(async ({ session, options }, content) => {
+      try {
+        const src = getMessageResource(session, 'file')
+        let text = content
+        if (src) {
+          const file = await ctx.http.file(src)
+          text = Buffer.from(file.data).toString('utf8')
+        }
+        if (!text) {
+          return '请附带导出的收藏文件，或在命令后粘贴 JSON / CSV 内容'
+        }
 
-          // 发送图片
-          const toSend = illusts.slice(0, config.searchResultCount)
-          log('info', `准备发送 ${toSend.length} 张 R18 图片`)
-          for (const illust of toSend) {
-            await sendIllust(session, illust)
-          }
+        const records = parseFavorites(text)
+        if (records.length === 0) {
+          return '没有找到可以导入的收藏'
+        }
+        if (records.length > MAX_IMPORT_FAVORITES) {
+          return `一次最多导入 ${MAX_IMPORT_FAVORITES} 条收藏，当前为 ${records.length} 条`
+        }
 
-          return `这里是 ${toSend.length} 张热门图片，跟我说"下一页"查看更多~`
-        } catch (error: any) {
-          log('error', '获取 R18 排行榜失败', {
-            sessionId,
-            mode,
-            message: error.message,
-            stack: error.stack,
-            response: error.response?.data,
-            status: error.response?.status,
-            code: error.code,
-            address: error.address,
-            syscall: error.syscall,
-          })
-          return `获取排行榜失败：${error.message || '请求失败，请重试'}`
+        // 指定收藏夹时，所有记录都导入到该收藏夹
+        const folder = options.folder === undefined ? undefined : parseFolder(options.folder)
+        let added = 0
+        for (const record of records) {
+          if (await addFavorite(session, { ...record, folder: folder ?? record.folder })) added++
         }
-      })
-  }
+        log('info', '导入收藏完成', { userId: session.userId, total: records.length, added })
+        return `导入完成：新增 ${added} 条收藏${added < records.length ? `，${records.length - added} 条已经收藏过，已跳过` : ''}`
+      } catch (error: any) {
+        log('error', '导入收藏失败', { message: error.message, stack: error.stack })
+        return `导入收藏失败：${error.message || '请重试'}`
+      }
+    })
 
-  // 推荐插画命令
-  log('info', '注册推荐插画命令')
-  ctx.command('推荐插画', '获取 Pixiv 个性化推荐插画')
-    .alias('pixiv 推荐')
-    .alias('推荐')
-    .action(async ({ session }) => {
-      const sessionId = getSessionId(session)
-      log('info', `收到推荐插画请求`, { sessionId })
+  // 书签命令：浏览 Bot 账号的 Pixiv 书签，非公开书签需要管理权限
+  log('info', '注册书签命令')
+  ctx.command('书签', '浏览 Bot 账号的 Pixiv 书签')
+    .alias('pixiv-bookmarks')
+    .option('private', '-p', { authority: config.adminAuthority })
+    .option('unseen', '-u')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }) => {
+      const sessionId = getSessionId(session, options.scope)
+      const restrict: BookmarkVisibility = options.private ? 'private' : 'public'
+      log('info', '收到书签请求', { sessionId, restrict })
 
       try {
-        const pixiv = await initPixiv()
+        return await presentResults(session, sessionId, startState({
+          type: 'bookmarks',
+          bookmarkRestrict: restrict,
+          skipShown: options.unseen ?? config.skipShown,
+        }), true)
+      } catch (error: any) {
+        log('error', '获取书签失败', {
+          sessionId,
+          restrict,
+          message: error.message,
+          stack: error.stack,
+        })
+        return `获取书签失败：${error.message || '请求失败，请重试'}`
+      }
+    })
 
-        log('info', '获取推荐插画')
+  // 导入书签命令：将 Bot 账号的书签导入为自己的本地收藏，已经收藏过的作品会被跳过
+  log('info', '注册导入书签命令')
+  ctx.command('导入书签', '将 Bot 账号的 Pixiv 书签导入为本地收藏')
+    .alias('pixiv-import-bookmarks')
+    .option('private', '-p', { authority: config.adminAuthority })
+    .option('folder', '-f <folder:string>')
+    .before(rateLimit('search'))
+    .action(async ({ session, options }) => {
+      const restrict: BookmarkVisibility = options.private ? 'private' : 'public'
+      try {
+        const folder = parseFolder(options.folder)
+        const source = resultSources.bookmarks
+        const state = startState({ type: 'bookmarks', bookmarkRestrict: restrict })
+        let page = await source.first(state)
+        let total = 0
+        let added = 0
+        let truncated = false
+        while (true) {
+          const illusts = page.illusts.slice(0, MAX_IMPORT_FAVORITES - total)
+          for (const illust of illusts) {
+            total++
+            if (await addFavorite(session, { illustId: illust.id, folder, note: '' }, toFavoriteSnapshot(illust))) added++
+          }
+          truncated = illusts.length < page.illusts.length || (total >= MAX_IMPORT_FAVORITES && !!page.nextUrl)
+          if (!page.nextUrl || truncated) break
+          page = await source.next(state, page.nextUrl)
+        }
 
-        const result = await pixiv.illustRecommended()
+        if (total === 0) {
+          return `Bot 账号还没有${bookmarkLabel(restrict)}哦~`
+        }
+        log('info', '导入书签完成', { userId: session.userId, restrict, total, added })
+        return [
+          `已从 Pixiv ${bookmarkLabel(restrict)}导入 ${added} 条收藏`,
+          added < total ? `，${total - added} 条已经收藏过，已跳过` : '',
+          truncated ? `（单次最多导入 ${MAX_IMPORT_FAVORITES} 条）` : '',
+        ].join('')
+      } catch (error: any) {
+        log('error', '导入书签失败', { restrict, message: error.message, stack: error.stack })
+        return `导入书签失败：${error.message || '请求失败，请重试'}`
+      }
+    })
 
-        log('info', '推荐插画响应原始数据', {
-          status: result.status,
-          illustsCount: result.data.illusts?.length || 0,
-          nextUrl: result.data.next_url,
-        })
+  // 下一页命令
+  log('info', '注册下一页命令')
+  ctx.command('下一页', '查看下一页搜索结果')
+    .alias('next-page')
+    .option('scope', '<scope>', { type: sessionScopes })
+    .before(rateLimit('paging'))
+    .action(async ({ session, options }) => {
+      const sessionId = getSessionId(session, options.scope)
+      const state = await getState(sessionId)
 
-        const illusts = filterIllusts(result.data.illusts || [])
+      log('info', `收到下一页请求`, { sessionId, hasState: !!state, state: state && summarizeState(state) })
 
-        if (illusts.length === 0) {
-          log('warn', '推荐插画无数据')
-          return '暂无推荐插画数据哦......'
-        }
+      if (!state) {
+        return '你还没有输入"搜图"或"每日热门"命令开始搜索呢...没有下一页哦~'
+      }
 
-        // 保存搜索状态
-        searchStates.set(sessionId, {
-          type: 'recommended',
-          offset: illusts.length,
-          nextUrl: result.data.next_url || null,
-        })
-        log('info', '推荐插画状态已保存', { sessionId })
+      if (!resultSources[state.type]) {
+        log('warn', '未知的搜索状态', { state })
+        return '搜索状态异常，请重新开始搜索'
+      }
 
-        // 发送图片
-        const toSend = illusts.slice(0, config.searchResultCount)
-        log('info', `准备发送 ${toSend.length} 张推荐图片`)
-        for (const illust of toSend) {
-          await sendIllust(session, illust)
-        }
+      if (!state.hasMore) {
+        return '看起来没有更多图片了呢......'
+      }
 
-        return `这里是 ${toSend.length} 张推荐图片，跟我说"下一页"查看更多~`
+      try {
+        return await presentResults(session, sessionId, state, false)
       } catch (error: any) {
-        log('error', '获取推荐插画失败', {
+        log('error', '下一页请求失败', {
           sessionId,
+          state: summarizeState(state),
           message: error.message,
           stack: error.stack,
           response: error.response?.data,
@@ -667,388 +3038,853 @@ export function apply(ctx: Context, config: Config) {
           address: error.address,
           syscall: error.syscall,
         })
-        return `获取推荐失败：${error.message || '请求失败，请重试'}`
+        return `获取失败：${error.message || '请求失败，请重试'}`
       }
     })
 
-  // 插画详情查询命令
-  log('info', '注册插画详情命令')
-  ctx.command('插画详情 <illustId:number>', '根据 ID 查询插画详情')
-    .alias('pixiv 详情')
-    .alias('详情')
+  // 内容策略命令：查看或修改当前群组/频道/私聊的内容策略
+  const policyFields: Record<string, keyof ContentPolicy> = {
+    'r18': 'allowR18',
+    'r18g': 'allowR18G',
+    'ai': 'allowAI',
+    'max': 'maxResults',
+  }
+
+  const formatPolicy = (policy: Partial<ContentPolicy>) => {
+    const flag = (value?: boolean | null) => value == null ? '继承' : value ? '允许' : '禁止'
+    return `R18：${flag(policy.allowR18)}，R18-G：${flag(policy.allowR18G)}，AI：${flag(policy.allowAI)}，数量：${policy.maxResults ?? '继承'}`
+  }
+
+  log('info', '注册内容策略命令')
+  ctx.command('内容策略 [field:string] [value:string]', '查看或修改当前群聊/频道/私聊的内容策略', { authority: config.adminAuthority })
+    .alias('pixiv-policy')
+    .option('level', '<level>', { type: ['guild', 'channel'] })
+    .action(async ({ session, options }, field, value) => {
+      const targets = getPolicyTargets(session)
+
+      try {
+        if (!field) {
+          const ids = Object.values(targets).filter(Boolean)
+          const rows: ContentPolicyRow[] = await (ctx.database as any).get('pixiv_content_policies', { id: ids })
+          const lines = [`当前生效：${formatPolicy(await getPolicy(session))}`, `全局配置：${formatPolicy(defaultPolicy())}`]
+          for (const [level, id] of Object.entries(targets)) {
+            if (!id) continue
+            lines.push(`${policyLevelNames[level]}设置：${formatPolicy(rows.find(row => row.id === id) ?? {})}`)
+          }
+          return lines.join('\n')
+        }
+
+        const key = policyFields[field.toLowerCase()]
+        if (!key) {
+          return `未知的策略项：${field}，可选：${Object.keys(policyFields).join(' / ')}`
+        }
+
+        let parsed: boolean | number | null
+        if (!value) {
+          return '请输入要设置的值哦~，比如：内容策略 r18 on'
+        } else if (value === 'inherit') {
+          parsed = null
+        } else if (key === 'maxResults') {
+          parsed = Number(value)
+          if (!Number.isInteger(parsed) || parsed < 1 || parsed > 10) {
+            return '数量必须是 1 到 10 之间的整数，或 inherit 表示继承'
+          }
+        } else if (value === 'on' || value === 'off') {
+          parsed = value === 'on'
+        } else {
+          return `无效的值：${value}，可选：on / off / inherit`
+        }
+
+        const { id, error } = resolvePolicyTarget(session, options.level)
+        if (error) return error
+        await (ctx.database as any).upsert('pixiv_content_policies', [{ id, [key]: parsed }])
+        log('info', '内容策略已更新', { id, key, value: parsed, operator: session.userId })
+        return `已更新内容策略（${id}）：${field} = ${value}`
+      } catch (error: any) {
+        log('error', '内容策略操作失败', {
+          targets,
+          field,
+          value,
+          message: error.message,
+          stack: error.stack,
+        })
+        return `操作失败：${error.message || '请重试'}`
+      }
+    })
+
+  // 说明模板命令：为当前群组/频道/私聊设置插画说明模板，-c 只对指定命令生效
+  log('info', '注册说明模板命令')
+  ctx.command('说明模板 [template:text]', '查看或修改当前群聊/频道/私聊的插画说明模板', { authority: config.adminAuthority })
+    .alias('pixiv-caption')
+    .option('command', '-c <command:string>')
+    .option('level', '<level>', { type: ['guild', 'channel'] })
+    .option('reset', '-r')
+    .action(async ({ session, options }, template) => {
+      const { id, error } = resolvePolicyTarget(session, options.level)
+      if (error) return error
+
+      // 命令可以用别名指定，保存时统一为命令名
+      let command = ''
+      if (options.command) {
+        command = ctx.$commander.resolve(options.command)?.name
+        if (!command) return `未知的命令：${options.command}`
+      }
+      const label = command ? `命令「${command}」` : '所有命令'
+
+      try {
+        if (!template && !options.reset) {
+          return [
+            `${label}当前生效的说明模板：`,
+            await getCaptionTemplate(session, command || undefined) || '（空，只发送图片）',
+            `可用的占位符：${Object.entries(captionFields).map(([name, desc]) => `{${name}} ${desc}`).join('、')}`,
+            '占位符全部为空的行会被省略，模板中的 \\n 表示换行',
+          ].join('\n')
+        }
+
+        const value = template?.replace(/\\n/g, '\n')
+        if (value) {
+          const unknown = validateCaptionTemplate(value)
+          if (unknown.length) {
+            return `未知的占位符：${unknown.map(name => `{${name}}`).join(' ')}，可选：${Object.keys(captionFields).map(name => `{${name}}`).join(' ')}`
+          }
+        }
+
+        const [row]: CaptionTemplateRow[] = await (ctx.database as any).get('pixiv_caption_templates', { id })
+        const templates = { ...row?.templates }
+        if (options.reset) {
+          delete templates[command]
+        } else {
+          templates[command] = value
+        }
+        await (ctx.database as any).upsert('pixiv_caption_templates', [{ id, templates }])
+        log('info', '说明模板已更新', { id, command, reset: !!options.reset, operator: session.userId })
+        return options.reset
+          ? `已恢复${label}的说明模板（${id}），改为继承上一级设置`
+          : `已更新${label}的说明模板（${id}）`
+      } catch (error: any) {
+        log('error', '说明模板操作失败', { id, command, message: error.message, stack: error.stack })
+        return `操作失败：${error.message || '请重试'}`
+      }
+    })
+
+  // 过滤原因命令：解释指定插画在当前会话中是否会被过滤
+  log('info', '注册过滤原因命令')
+  ctx.command('过滤原因 <illustId:number>', '查看指定插画在当前会话中被过滤的原因', { authority: config.adminAuthority })
+    .alias('pixiv-explain')
     .action(async ({ session }, illustId: number) => {
       if (!illustId) {
-        return '请输入要查询的插画 ID 哦~，比如：插画详情 12345678'
+        return '请输入要检查的插画 ID 哦~，比如：过滤原因 12345678'
       }
 
-      const sessionId = getSessionId(session)
-      log('info', `收到插画详情请求`, { sessionId, illustId })
-
       try {
-        const pixiv = await initPixiv()
-
-        log('info', '获取插画详情', { illustId })
-
-        const result = await pixiv.illustDetail({ illustId })
-
-        log('info', '插画详情响应原始数据', {
-          status: result.status,
-          illustId: result.data.illust?.id,
-        })
-
+        const result = await callPixiv('illustDetail', pixiv => pixiv.illustDetail({ illustId }))
         const illust = result.data.illust
 
         if (!illust) {
-          log('warn', '未找到插画', { illustId })
           return '没有找到该 ID 的插画哦......请检查 ID 是否正确'
         }
 
-        // 发送插画
-        await sendIllust(session, illust)
-
-        return null
+        const reasons = illustFilter(illust, await getPolicy(session))
+        if (reasons.length === 0) {
+          return `插画 ${illustId}「${illust.title}」不会被过滤`
+        }
+        return [`插画 ${illustId}「${illust.title}」会被过滤，原因：`, ...reasons.map(reason => `- ${reason}`)].join('\n')
       } catch (error: any) {
-        log('error', '获取插画详情失败', {
+        log('error', '检查过滤原因失败', {
           illustId,
-          sessionId,
           message: error.message,
           stack: error.stack,
-          response: error.response?.data,
           status: error.response?.status,
-          code: error.code,
         })
-        return `获取插画详情失败：${error.message || '请求失败，请重试'}`
+        return `检查失败：${error.message || '请求失败，请重试'}`
       }
     })
 
-  // 按作者 ID 搜索作品命令
-  log('info', '注册搜作者命令')
-  ctx.command('搜作者 <authorId:number>', '根据作者 ID 搜索该作者的作品')
-    .alias('作者作品')
-    .action(async ({ session }, authorId: number) => {
-      if (!authorId) {
-        return '请输入要查询的作者 ID 哦~，比如：搜作者 12345678'
+  // 图片缓存命令：查看缓存统计或清空缓存
+  log('info', '注册图片缓存命令')
+  ctx.command('图片缓存', '查看或清空本地图片缓存', { authority: config.adminAuthority })
+    .alias('pixiv-cache')
+    .option('clear', '-c')
+    .action(async ({ options }) => {
+      try {
+        if (options.clear) {
+          const count = await imageCache.clear()
+          log('info', '图片缓存已清空', { count })
+          return `已清空图片缓存，共删除 ${count} 张图片`
+        }
+
+        const stats = await imageCache.stats()
+        const toMB = (size: number) => (size / 1024 / 1024).toFixed(1)
+        const total = stats.hits + stats.misses
+        return [
+          `图片缓存：${stats.enabled ? '已启用' : '未启用'}`,
+          `- 目录：${stats.directory}`,
+          `- 图片数：${stats.entries}`,
+          `- 占用：${toMB(stats.size)} / ${toMB(stats.maxSize)} MB`,
+          `- 命中率：${total ? (stats.hits / total * 100).toFixed(1) : 0}%（命中 ${stats.hits}，未命中 ${stats.misses}）`,
+          `- 下载中：${stats.pending}`,
+        ].join('\n')
+      } catch (error: any) {
+        log('error', '图片缓存操作失败', {
+          message: error.message,
+          stack: error.stack,
+        })
+        return `操作失败：${error.message || '请重试'}`
       }
+    })
 
-      const sessionId = getSessionId(session)
-      log('info', `收到搜作者请求`, { sessionId, authorId })
+  const formatTime = (date: Date) => date.toLocaleString('zh-CN', { hour12: false })
+
+  // 主动推送没有触发消息，通过对应平台的机器人构造会话，内容策略按推送目标计算
+  const createPushSession = async (target: PushTarget) => {
+    const bot = ctx.bots[`${target.platform}:${target.selfId}`]
+    if (!bot) return null
+    if (!target.channelId && target.userId) {
+      const channel = await bot.createDirectChannel(target.userId)
+      return bot.session({
+        type: 'message-created',
+        channel: { id: channel.id, type: Universal.Channel.Type.DIRECT },
+        user: { id: target.userId },
+      })
+    }
+    return bot.session({
+      type: 'message-created',
+      channel: { id: target.channelId, type: Universal.Channel.Type.TEXT },
+      guild: target.guildId ? { id: target.guildId } : undefined,
+    })
+  }
 
+  // 向推送会话发送标题和作品；私聊推送的最近插画归属该用户，频道推送归属整个频道
+  // 标题发送失败时抛出错误，此时还没有发出任何内容，可以整体重试；之后单件作品发送失败只记录日志，
+  // 返回发送成功的作品，避免重试时重复发送
+  const pushIllusts = async (session: any, header: string, illusts: any[]) => {
+    const sessionId = getSessionId(session, session.isDirect ? 'user' : 'channel')
+    await session.send(header)
+    const delivered: any[] = []
+    for (const illust of illusts) {
       try {
-        const pixiv = await initPixiv()
+        await sendIllustPages(session, illust, getDefaultPages(illust), sessionId)
+        delivered.push(illust)
+      } catch (error: any) {
+        log('warn', '推送作品失败', { illustId: illust.id, channelId: session.channelId, message: error.message })
+      }
+    }
+    return delivered
+  }
 
-        log('info', '搜索作者作品', { authorId })
+  // 推送一次订阅的排行榜
+  const deliverSubscription = async (subscription: RankingSubscription) => {
+    const ranking = findRanking(subscription.mode)
+    const session = await createPushSession(subscription)
+    if (!ranking || !session) {
+      log('warn', '订阅推送跳过：排行榜或机器人不可用', { id: subscription.id, mode: subscription.mode, platform: subscription.platform, selfId: subscription.selfId })
+      return
+    }
 
-        // 使用 searchIllust API 的 searchAim 参数来搜索特定作者的作品
-        const result = await pixiv.searchIllust({
-          word: `user_id:${authorId}`,
-          offset: 0,
-          searchTarget: SearchTarget.KEYWORD,
-          sort: SearchSort.DATE_DESC,
-        })
+    const policy = await getPolicy(session)
+    if (checkRankingPolicy(ranking, policy)) {
+      log('warn', '订阅推送跳过：频道的内容策略不允许该排行榜', { id: subscription.id, channelId: subscription.channelId, mode: ranking.mode })
+      return
+    }
 
-        log('info', '作者作品响应原始数据', {
-          status: result.status,
-          illustsCount: result.data.illusts?.length || 0,
-          nextUrl: result.data.next_url,
-        })
+    const { illusts } = await collectIllusts(startState({ type: 'ranking', rankingMode: ranking.mode, skipShown: config.skipShown }), {
+      ...policy,
+      maxResults: Math.min(subscription.count, config.subscriptionMaxCount),
+    }, getHistoryScope(session))
+    if (illusts.length === 0) {
+      log('warn', '订阅推送无结果', { id: subscription.id, mode: subscription.mode })
+      return
+    }
 
-        const illusts = filterIllusts(result.data.illusts || [])
+    const delivered = await pushIllusts(session, `📅 ${getRankingLabel(ranking.mode)}订阅推送（#${subscription.id}）`, illusts)
+    log('info', '订阅推送完成', { id: subscription.id, mode: subscription.mode, count: delivered.length, failed: illusts.length - delivered.length })
+  }
 
-        if (illusts.length === 0) {
-          log('warn', '作者无作品', { authorId })
-          return '该作者还没有作品哦......'
-        }
+  // 推送失败后的重试间隔，重试不会越过下一次计划推送的时间
+  const SUBSCRIPTION_RETRY_DELAY = 5 * Time.minute
 
-        // 保存搜索状态
-        searchStates.set(sessionId, {
-          type: 'search',
-          keyword: `user_id:${authorId}`,
-          authorId,
-          searchTarget: SearchTarget.KEYWORD,
-          searchSort: SearchSort.DATE_DESC,
-          offset: illusts.length,
-          nextUrl: result.data.next_url || null,
-        })
-        log('info', '搜作者状态已保存', { sessionId })
+  const isBotOnline = (target: PushTarget) => {
+    return ctx.bots[`${target.platform}:${target.selfId}`]?.status === Universal.Status.ONLINE
+  }
 
-        // 发送图片
-        const toSend = illusts.slice(0, config.searchResultCount)
-        log('info', `准备发送 ${toSend.length} 张作者图片`)
-        for (const illust of toSend) {
-          await sendIllust(session, illust)
+  // 检查到期的订阅。机器人未上线的订阅保持到期状态，等上线后再推送，因此启动时适配器尚未连接也不会错过。
+  // 推送前先在数据库中有条件地写入下一次推送时间来认领本次推送，多个实例共用数据库时只有一个会推送；
+  // 标题发出之前失败时稍后重试，标题发出之后不再重试，避免重复发送。停机期间错过的多次推送只补发一次
+  let checkingSubscriptions = false
+  const checkSubscriptions = async () => {
+    if (checkingSubscriptions) return
+    checkingSubscriptions = true
+    try {
+      const now = new Date()
+      const due: RankingSubscription[] = await (ctx.database as any).get('pixiv_subscriptions', {
+        nextRunAt: { $lte: now },
+      })
+      for (const subscription of due) {
+        if (!isBotOnline(subscription)) continue
+
+        const nextRunAt = getNextRun(parseCron(subscription.cron), now)
+        const claim = await (ctx.database as any).set('pixiv_subscriptions', {
+          id: subscription.id,
+          nextRunAt: subscription.nextRunAt,
+        }, { lastRunAt: now, nextRunAt })
+        if (claim?.matched === 0) continue
+
+        try {
+          await deliverSubscription(subscription)
+        } catch (error: any) {
+          const retryAt = new Date(Date.now() + SUBSCRIPTION_RETRY_DELAY)
+          if (!nextRunAt || retryAt >= nextRunAt) {
+            log('error', '订阅推送失败', { id: subscription.id, message: error.message, stack: error.stack })
+            continue
+          }
+          await (ctx.database as any).set('pixiv_subscriptions', { id: subscription.id, nextRunAt }, { nextRunAt: retryAt })
+          log('error', '订阅推送失败，稍后重试', { id: subscription.id, retryAt, message: error.message, stack: error.stack })
         }
+      }
+    } catch (error: any) {
+      log('warn', '检查订阅失败', { message: error.message })
+    } finally {
+      checkingSubscriptions = false
+    }
+  }
+  ctx.on('ready', checkSubscriptions)
+  ctx.setInterval(checkSubscriptions, Time.minute)
+
+  // 订阅排行榜命令
+  log('info', '注册订阅排行命令')
+  ctx.command('订阅排行 <ranking:string> [cron:text]', '为当前频道订阅排行榜定时推送', { authority: config.adminAuthority })
+    .alias('pixiv-subscribe')
+    .option('count', '-n <count:posint>')
+    .action(async ({ session, options }, ranking, cron) => {
+      if (!ranking) {
+        return '请输入要订阅的排行榜哦~，比如：订阅排行 每日热门 0 8 * * *'
+      }
+      if (session.isDirect || !session.channelId) {
+        return '订阅推送仅支持在群聊或频道中使用哦~'
+      }
+
+      const target = findRanking(ranking)
+      if (!target) {
+        return `未知的排行榜：${ranking}，可选：${rankingNames()}`
+      }
+      const denied = checkRankingPolicy(target, await getPolicy(session))
+      if (denied) return denied
 
-        return `这里是 ${toSend.length} 张图片，跟我说"下一页"查看更多~`
+      let schedule: ReturnType<typeof parseCron>
+      try {
+        schedule = parseCron(cron || config.subscriptionCron)
       } catch (error: any) {
-        log('error', '获取作者作品失败', {
-          authorId,
-          sessionId,
-          message: error.message,
-          stack: error.stack,
-          response: error.response?.data,
-          status: error.response?.status,
-          code: error.code,
+        return `无效的推送时间：${error.message}`
+      }
+      const nextRunAt = getNextRun(schedule, new Date())
+      if (!nextRunAt) {
+        return `推送时间 ${schedule.source} 永远不会触发，请检查日期和月份`
+      }
+
+      const count = Math.min(options.count || config.searchResultCount, config.subscriptionMaxCount)
+      try {
+        const subscription: RankingSubscription = await (ctx.database as any).create('pixiv_subscriptions', {
+          platform: session.platform,
+          selfId: session.selfId,
+          channelId: session.channelId,
+          guildId: session.guildId || '',
+          mode: target.mode,
+          cron: schedule.source,
+          count,
+          createdBy: session.userId,
+          createdAt: new Date(),
+          lastRunAt: null,
+          nextRunAt,
         })
-        return `获取作者作品失败：${error.message || '请求失败，请重试'}`
+        log('info', '新增订阅', { id: subscription.id, channelId: session.channelId, mode: target.mode, cron: schedule.source })
+        return `已订阅「${getRankingLabel(target.mode)}」（#${subscription.id}），推送时间 ${schedule.source}，每次 ${count} 张，下次推送：${formatTime(nextRunAt)}`
+      } catch (error: any) {
+        log('error', '订阅失败', { message: error.message, stack: error.stack })
+        return `订阅失败：${error.message || '请重试'}`
       }
     })
 
-  // 收藏命令
-  log('info', '注册收藏命令')
-  ctx.command('收藏', '收藏最近一次展示的插画')
-    .alias('fav')
+  // 订阅列表命令
+  log('info', '注册订阅列表命令')
+  ctx.command('订阅列表', '查看当前频道的排行榜订阅')
+    .alias('pixiv-subscriptions')
     .action(async ({ session }) => {
-      const sessionId = getSessionId(session)
-      const state = searchStates.get(sessionId)
-
-      if (!state || !state.lastIllustId) {
-        return '没有可收藏的图片哦~请先使用"搜图"或"每日热门"等命令展示图片'
-      }
-
-      const illustId = state.lastIllustId
-
       try {
-        // 检查是否已经收藏过
-        const existing = await (ctx.database as any).get('pixiv_favorites', {
-          userId: session.userId,
+        const subscriptions: RankingSubscription[] = await (ctx.database as any).get('pixiv_subscriptions', {
           platform: session.platform,
-          illustId,
+          channelId: session.channelId,
         })
-
-        if (existing.length > 0) {
-          return '这张图片已经收藏过了哦~'
+        if (subscriptions.length === 0) {
+          return '当前频道还没有订阅任何排行榜哦~'
         }
-
-        // 添加收藏 - 使用 upsert 并指定唯一键
-        await (ctx.database as any).upsert('pixiv_favorites', [{
-          userId: session.userId,
-          platform: session.platform,
-          illustId,
-          createdAt: Date.now(),
-        }], ['userId', 'platform', 'illustId'])
-
-        log('info', '收藏成功', { sessionId, illustId })
-        return `收藏成功！插画 ID: ${illustId}`
+        return [
+          '当前频道的排行榜订阅：',
+          ...subscriptions.map(item => `#${item.id} ${getRankingLabel(item.mode)}｜${item.cron}｜每次 ${item.count} 张｜下次 ${item.nextRunAt ? formatTime(item.nextRunAt) : '无'}`),
+        ].join('\n')
       } catch (error: any) {
-        log('error', '收藏失败', {
-          sessionId,
-          illustId,
-          message: error.message,
-          stack: error.stack,
-        })
-        return `收藏失败：${error.message || '请重试'}`
+        log('error', '查询订阅失败', { message: error.message, stack: error.stack })
+        return `查询订阅失败：${error.message || '请重试'}`
       }
     })
 
-  // 查询最爱命令
-  log('info', '注册查询最爱命令')
-  ctx.command('查询最爱', '查看已收藏的插画列表')
-    .alias('favorites')
-    .action(async ({ session }) => {
-      const sessionId = getSessionId(session)
-      log('info', `收到查询最爱请求`, { sessionId })
-
+  // 取消订阅命令，只能取消当前频道的订阅
+  log('info', '注册取消订阅命令')
+  ctx.command('取消订阅 <id:posint>', '取消当前频道的排行榜订阅', { authority: config.adminAuthority })
+    .alias('pixiv-unsubscribe')
+    .action(async ({ session }, id) => {
+      if (!id) {
+        return '请输入要取消的订阅编号哦~，可以通过"订阅列表"查看'
+      }
       try {
-        const favorites = await (ctx.database as any).get('pixiv_favorites', {
-          userId: session.userId,
+        const [subscription]: RankingSubscription[] = await (ctx.database as any).get('pixiv_subscriptions', {
+          id,
           platform: session.platform,
+          channelId: session.channelId,
         })
-
-        if (favorites.length === 0) {
-          return '你还没有收藏任何插画哦~使用"收藏"命令来收藏图片吧！'
+        if (!subscription) {
+          return `当前频道没有编号为 #${id} 的订阅`
         }
+        await (ctx.database as any).remove('pixiv_subscriptions', { id })
+        log('info', '取消订阅', { id, channelId: session.channelId })
+        return `已取消订阅 #${id}「${getRankingLabel(subscription.mode)}」`
+      } catch (error: any) {
+        log('error', '取消订阅失败', { message: error.message, stack: error.stack })
+        return `取消订阅失败：${error.message || '请重试'}`
+      }
+    })
 
-        // 按收藏时间倒序排列
-        const sortedFavorites = favorites.sort((a: any, b: any) => b.createdAt - a.createdAt)
-        const favoriteIds = sortedFavorites.map((f: any) => f.illustId)
+  // 关注的归属：-c 为当前频道，否则为发起命令的用户（通过私聊推送）
+  const getFollowOwner = (session: any, channel: boolean) => {
+    if (!channel) {
+      return { platform: session.platform, selfId: session.selfId, channelId: '', guildId: '', userId: session.userId }
+    }
+    if (session.isDirect || !session.channelId) return null
+    return { platform: session.platform, selfId: session.selfId, channelId: session.channelId, guildId: session.guildId || '', userId: '' }
+  }
 
-        // 保存搜索状态
-        searchStates.set(sessionId, {
-          type: 'favorites',
-          favoriteIds,
-          offset: 0,
-          nextUrl: null,
-        })
+  // 向一位关注者推送作者的新作品，按关注者的内容策略过滤。works 按发布从早到晚排列，
+  // 返回已处理到的最新作品 ID：被过滤的作品视为已处理，发送失败的作品及其之后的作品留到下次检查
+  const deliverNewWorks = async (follow: ArtistFollow, works: any[]) => {
+    const session = await createPushSession(follow)
+    const visible = filterIllusts(works, await getPolicy(session))
+    const delivered = visible.length
+      ? await pushIllusts(session, `🔔 你关注的作者「${follow.authorName}」发布了 ${visible.length} 件新作品`, visible)
+      : []
+    const failed = visible.find(illust => !delivered.includes(illust))
+    const handled = failed ? works.slice(0, works.indexOf(failed)) : works
+    return handled.length ? handled[handled.length - 1].id : follow.lastIllustId
+  }
 
-        // 获取插画详情
-        const pixiv = await initPixiv()
-        const count = Math.min(config.searchResultCount, favoriteIds.length)
-        const detailResults = await Promise.all(favoriteIds.slice(0, count).map(async (illustId) => {
-          try {
-            const result = await pixiv.illustDetail({ illustId })
-            return result.data.illust ?? null
-          } catch (e: any) {
-            log('warn', '获取插画详情失败', { illustId, message: e.message })
-            return null
-          }
-        }))
-        const toSend = detailResults.filter((illust) => !!illust)
+  // 检查一位作者的新作品。作者的进度只用于给新的关注者建立基线，每位关注者分别记录已推送到的作品：
+  // 机器人未上线或推送失败的关注者不会前进，下次检查时重新推送
+  const pollArtist = async (artist: FollowedArtist) => {
+    const { illusts } = await fetchUserIllusts(artist.id)
+    const latestId = Math.max(artist.lastIllustId ?? 0, ...illusts.map(illust => illust.id))
+    await (ctx.database as any).upsert('pixiv_followed_artists', [{ id: artist.id, lastIllustId: latestId, checkedAt: new Date() }])
+
+    const follows: ArtistFollow[] = await (ctx.database as any).get('pixiv_follows', { authorId: artist.id })
+    for (const follow of follows) {
+      const baseline = follow.lastIllustId ?? artist.lastIllustId
+      if (baseline == null) {
+        await (ctx.database as any).set('pixiv_follows', { id: follow.id }, { lastIllustId: latestId })
+        continue
+      }
+      if (!isBotOnline(follow)) continue
+
+      const works = illusts
+        .filter(illust => illust.id > baseline)
+        .reverse()
+        .slice(0, config.subscriptionMaxCount)
+      if (works.length === 0) continue
 
-        if (toSend.length === 0) {
-          return '无法获取收藏的插画详情'
+      log('info', '发现关注作者的新作品', { id: follow.id, authorId: artist.id, illustIds: works.map(illust => illust.id) })
+      try {
+        const lastIllustId = await deliverNewWorks({ ...follow, lastIllustId: baseline }, works)
+        await (ctx.database as any).set('pixiv_follows', { id: follow.id }, { lastIllustId })
+      } catch (error: any) {
+        log('error', '关注推送失败', { id: follow.id, authorId: artist.id, message: error.message, stack: error.stack })
+      }
+    }
+  }
+
+  // 每次只检查 followBatchSize 位最久未检查的作者，同一作者的多个关注者共享一次请求
+  let pollingFollows = false
+  const pollFollows = async () => {
+    if (pollingFollows) return
+    pollingFollows = true
+    try {
+      const follows: Pick<ArtistFollow, 'authorId'>[] = await (ctx.database as any).get('pixiv_follows', {}, ['authorId'])
+      const authorIds = [...new Set(follows.map(follow => follow.authorId))]
+      if (authorIds.length === 0) return
+
+      const rows: FollowedArtist[] = await (ctx.database as any).get('pixiv_followed_artists', { id: authorIds })
+      const artists = authorIds
+        .map(id => rows.find(row => row.id === id) ?? { id, lastIllustId: null, checkedAt: null })
+        .sort((a, b) => (a.checkedAt?.getTime() ?? 0) - (b.checkedAt?.getTime() ?? 0))
+        .slice(0, config.followBatchSize)
+
+      for (const artist of artists) {
+        try {
+          await pollArtist(artist)
+        } catch (error: any) {
+          log('warn', '检查作者新作品失败', { authorId: artist.id, message: error.message })
         }
+      }
+    } catch (error: any) {
+      log('warn', '轮询关注作者失败', { message: error.message })
+    } finally {
+      pollingFollows = false
+    }
+  }
+  ctx.on('ready', pollFollows)
+  ctx.setInterval(pollFollows, config.followPollInterval)
+
+  // 关注作者命令
+  log('info', '注册关注作者命令')
+  ctx.command('关注作者 <authorId:posint>', '关注 Pixiv 作者，有新作品时自动推送')
+    .alias('pixiv-follow')
+    .option('channel', '-c', { authority: config.adminAuthority })
+    .before(rateLimit('search'))
+    .action(async ({ session, options }, authorId) => {
+      if (!authorId) {
+        return '请输入要关注的作者 ID 哦~，比如：关注作者 12345678'
+      }
+      const owner = getFollowOwner(session, options.channel)
+      if (!owner) {
+        return '频道关注仅支持在群聊或频道中使用哦~'
+      }
 
-        // 发送图片
-        for (const illust of toSend) {
-          await sendIllust(session, illust)
+      try {
+        const [existing]: ArtistFollow[] = await (ctx.database as any).get('pixiv_follows', {
+          authorId,
+          platform: owner.platform,
+          channelId: owner.channelId,
+          userId: owner.userId,
+        })
+        if (existing) {
+          return `已经关注过「${existing.authorName}」了哦~`
         }
 
-        const total = favoriteIds.length
-        if (total > config.searchResultCount) {
-          return `共收藏了 ${total} 张插画，跟我说"下一页"查看更多~`
+        const result = await callPixiv('userDetail', pixiv => pixiv.userDetail({ userId: authorId }))
+        const user = result.data.user
+        if (!user) {
+          return '没有找到该 ID 的作者哦......'
         }
-        return `显示 ${toSend.length} 张收藏插画`
-      } catch (error: any) {
-        log('error', '查询最爱失败', {
-          sessionId,
-          message: error.message,
-          stack: error.stack,
+
+        // 作者已被其他人关注时沿用其进度作为基线，只推送之后发布的作品
+        const [artist]: FollowedArtist[] = await (ctx.database as any).get('pixiv_followed_artists', { id: authorId })
+        await (ctx.database as any).create('pixiv_follows', {
+          ...owner,
+          authorId,
+          authorName: user.name,
+          lastIllustId: artist?.lastIllustId ?? null,
+          createdAt: new Date(),
         })
-        return `查询失败：${error.message || '请重试'}`
+        log('info', '新增关注', { authorId, ...owner })
+        return `已关注「${user.name}」(${authorId})，有新作品时会${owner.userId ? '私聊' : '在本频道'}推送~`
+      } catch (error: any) {
+        log('error', '关注作者失败', { authorId, message: error.message, stack: error.stack })
+        return `关注失败：${error.message || '请求失败，请重试'}`
       }
     })
 
-  // 下一页命令
-  log('info', '注册下一页命令')
-  ctx.command('下一页', '查看下一页搜索结果')
-    .alias('next-page')
-    .action(async ({ session }) => {
-      const sessionId = getSessionId(session)
-      const state = searchStates.get(sessionId)
+  // 取消关注命令
+  log('info', '注册取消关注命令')
+  ctx.command('取消关注 <authorId:posint>', '取消关注 Pixiv 作者')
+    .alias('pixiv-unfollow')
+    .option('channel', '-c', { authority: config.adminAuthority })
+    .action(async ({ session, options }, authorId) => {
+      if (!authorId) {
+        return '请输入要取消关注的作者 ID 哦~，可以通过"关注列表"查看'
+      }
+      const owner = getFollowOwner(session, options.channel)
+      if (!owner) {
+        return '频道关注仅支持在群聊或频道中使用哦~'
+      }
 
-      log('info', `收到下一页请求`, { sessionId, hasState: !!state, state })
+      try {
+        const query = { authorId, platform: owner.platform, channelId: owner.channelId, userId: owner.userId }
+        const [follow]: ArtistFollow[] = await (ctx.database as any).get('pixiv_follows', query)
+        if (!follow) {
+          return `还没有关注作者 ${authorId} 哦~`
+        }
+        await (ctx.database as any).remove('pixiv_follows', query)
+        // 最后一位关注者离开时删除检查进度，之后重新关注会重新记录基线，不会补推期间的旧作品
+        const [remaining]: ArtistFollow[] = await (ctx.database as any).get('pixiv_follows', { authorId }, { limit: 1 })
+        if (!remaining) {
+          await (ctx.database as any).remove('pixiv_followed_artists', { id: authorId })
+        }
+        log('info', '取消关注', query)
+        return `已取消关注「${follow.authorName}」`
+      } catch (error: any) {
+        log('error', '取消关注失败', { authorId, message: error.message, stack: error.stack })
+        return `取消关注失败：${error.message || '请重试'}`
+      }
+    })
 
-      if (!state) {
-        return '你还没有输入"搜图"或"每日热门"命令开始搜索呢...没有下一页哦~'
+  // 关注列表命令
+  log('info', '注册关注列表命令')
+  ctx.command('关注列表', '查看关注的 Pixiv 作者')
+    .alias('pixiv-follows')
+    .option('channel', '-c')
+    .action(async ({ session, options }) => {
+      const owner = getFollowOwner(session, options.channel)
+      if (!owner) {
+        return '频道关注仅支持在群聊或频道中使用哦~'
       }
 
       try {
-        const pixiv = await initPixiv()
-        let result: any
-
-        if (state.type === 'search' && state.keyword) {
-          log('info', '继续搜索', {
-            keyword: state.keyword,
-            offset: state.offset,
-            searchTarget: state.searchTarget,
-            searchSort: state.searchSort,
-          })
-          const searchParams: any = {
-            word: state.keyword,
-            offset: state.offset,
-            searchTarget: state.searchTarget,
-            sort: state.searchSort,
-          }
-          result = await pixiv.searchIllust(searchParams)
-        } else if (state.type === 'ranking') {
-          log('info', '继续获取排行榜', {
-            mode: state.rankingMode,
-            offset: state.offset,
-          })
-          result = await pixiv.illustRanking({
-            mode: state.rankingMode,
-            offset: state.offset,
-          })
-        } else if (state.type === 'recommended') {
-          log('info', '继续获取推荐插画', {
-            offset: state.offset,
-          })
-          result = await pixiv.illustRecommended({
-            offset: state.offset,
-          })
-        } else if (state.type === 'favorites') {
-          // 收藏列表：使用已获取的收藏 ID 列表进行分页
-          log('info', '继续获取收藏插画', {
-            offset: state.offset,
-            totalFavorites: state.favoriteIds?.length || 0,
-          })
-
-          const favoriteIds = state.favoriteIds || []
-          const startIdx = state.offset
-          const endIdx = Math.min(startIdx + config.searchResultCount, favoriteIds.length)
+        const follows: ArtistFollow[] = await (ctx.database as any).get('pixiv_follows', {
+          platform: owner.platform,
+          channelId: owner.channelId,
+          userId: owner.userId,
+        })
+        if (follows.length === 0) {
+          return owner.userId ? '你还没有关注任何作者哦~' : '当前频道还没有关注任何作者哦~'
+        }
+        return [
+          owner.userId ? '你关注的作者：' : '当前频道关注的作者：',
+          ...follows.map(follow => `${follow.authorName} (${follow.authorId})`),
+        ].join('\n')
+      } catch (error: any) {
+        log('error', '查询关注列表失败', { message: error.message, stack: error.stack })
+        return `查询关注列表失败：${error.message || '请重试'}`
+      }
+    })
 
-          if (startIdx >= favoriteIds.length) {
-            searchStates.delete(sessionId)
-            log('info', '没有更多收藏了，清除搜索状态', { sessionId })
-            return '看起来没有更多图片了呢......'
-          }
+  /** 每个关键词订阅最多记住的作品数 */
+  const WATCH_SEEN_LIMIT = 500
+  /** 每个关键词订阅最多等待收藏数达标的作品数 */
+  const WATCH_PENDING_LIMIT = 100
+  /** 每次检查时重新获取详情的等待作品数 */
+  const WATCH_RECHECK_COUNT = 10
+
+  /**
+   * 检查一个关键词订阅：始终按最新发布排序搜索，第一次检查只记录基线。
+   * 新作品的收藏数未达到要求时放入等待列表，之后每次检查轮流获取其中几件的详情，
+   * 收藏数达标时推送，发布超过 watchPendingTTL 仍未达标或已被删除时移出列表。
+   */
+  const pollWatch = async (watch: SearchWatch) => {
+    const { illusts } = await resultSources.search.first(startState({
+      type: 'search',
+      keyword: watch.keyword,
+      searchTarget: targetMap[watch.target],
+      searchSort: SearchSort.DATE_DESC,
+    }))
+
+    const seen = new Set(watch.seenIds ?? illusts.map(illust => illust.id))
+    let pending = watch.pendingIds ?? []
+    const unseen = illusts.filter(illust => !seen.has(illust.id))
+    const save = () => (ctx.database as any).set('pixiv_search_watches', { id: watch.id }, {
+      seenIds: [...seen].slice(-WATCH_SEEN_LIMIT),
+      pendingIds: pending.slice(-WATCH_PENDING_LIMIT),
+      checkedAt: new Date(),
+    })
 
-          const idsToFetch = favoriteIds.slice(startIdx, endIdx)
-          const detailResults = await Promise.all(idsToFetch.map(async (illustId) => {
-            try {
-              const detailResult = await pixiv.illustDetail({ illustId })
-              return detailResult.data.illust ?? null
-            } catch (e: any) {
-              log('warn', '获取插画详情失败', { illustId, message: e.message })
-              return null
-            }
-          }))
-          const toSend = detailResults.filter((illust) => !!illust)
+    // 第一次检查只记录基线；机器人未上线时不处理，保留进度等下次检查
+    if (!watch.seenIds || !unseen.length && !pending.length) return save()
+    if (!isBotOnline(watch)) {
+      log('warn', '关键词订阅推送跳过：机器人未上线', { id: watch.id, platform: watch.platform, selfId: watch.selfId })
+      return
+    }
 
-          if (toSend.length === 0) {
-            return '无法获取收藏的插画详情'
-          }
+    const session = await createPushSession(watch)
+    const policy = await getPolicy(session)
+    const passed = filterIllusts(unseen, policy)
+    for (const illust of unseen) seen.add(illust.id)
+    let fresh = passed.filter(illust => (illust.total_bookmarks ?? 0) >= watch.minBookmarks)
+    pending.push(...passed.filter(illust => !fresh.includes(illust)).map(illust => illust.id))
+
+    // 轮流检查等待中的作品，检查过仍未达标的放回列表末尾
+    const recheck = pending.slice(0, WATCH_RECHECK_COUNT)
+    pending = pending.slice(WATCH_RECHECK_COUNT)
+    const expiredBefore = Date.now() - config.watchPendingTTL
+    for (const status of await Promise.all(recheck.map(fetchIllustStatus))) {
+      const { illust } = status
+      if (!illust) {
+        if (!status.missing) pending.push(status.illustId)
+      } else if ((illust.total_bookmarks ?? 0) >= watch.minBookmarks) {
+        if (filterIllusts([illust], policy).length) fresh.push(illust)
+      } else if (new Date(illust.create_date).getTime() > expiredBefore) {
+        pending.push(status.illustId)
+      }
+    }
 
-          // 发送图片
-          for (const illust of toSend) {
-            await sendIllust(session, illust)
-          }
+    // popular 按收藏数从高到低推送，date 按发布时间从早到晚推送
+    if (watch.sort === 'popular') {
+      fresh.sort((a, b) => (b.total_bookmarks ?? 0) - (a.total_bookmarks ?? 0))
+    } else {
+      fresh.sort((a, b) => a.id - b.id)
+    }
+    // 超出单次推送数量的作品放在等待列表最前面，下次检查时推送
+    pending.unshift(...fresh.slice(config.subscriptionMaxCount).map(illust => illust.id))
+    fresh = fresh.slice(0, config.subscriptionMaxCount)
 
-          // 更新偏移量
-          searchStates.set(sessionId, {
-            ...state,
-            offset: state.offset + toSend.length,
-          })
+    if (fresh.length) {
+      log('info', '关键词订阅发现新作品', { id: watch.id, keyword: watch.keyword, illustIds: fresh.map(illust => illust.id) })
+      let delivered: any[] = []
+      try {
+        delivered = await pushIllusts(session, `🔍 关键词订阅「${watch.keyword}」（#${watch.id}）有 ${fresh.length} 件新作品`, fresh)
+      } catch (error: any) {
+        log('error', '关键词订阅推送失败', { id: watch.id, message: error.message, stack: error.stack })
+      }
+      // 没有发送成功的作品放回等待列表，下次检查时重新推送
+      pending.unshift(...fresh.filter(illust => !delivered.includes(illust)).map(illust => illust.id))
+    }
+    await save()
+  }
 
-          return `已发送 ${toSend.length} 张图片，输入"下一页"查看更多`
-        } else {
-          log('warn', '未知的搜索状态', { state })
-          return '搜索状态异常，请重新开始搜索'
+  // 每次只检查 watchBatchSize 个最久未检查的关键词订阅
+  let pollingWatches = false
+  const pollWatches = async () => {
+    if (pollingWatches) return
+    pollingWatches = true
+    try {
+      const watches: SearchWatch[] = await (ctx.database as any).get('pixiv_search_watches', {})
+      const batch = watches
+        .sort((a, b) => (a.checkedAt?.getTime() ?? 0) - (b.checkedAt?.getTime() ?? 0))
+        .slice(0, config.watchBatchSize)
+      for (const watch of batch) {
+        try {
+          await pollWatch(watch)
+        } catch (error: any) {
+          log('warn', '检查关键词订阅失败', { id: watch.id, keyword: watch.keyword, message: error.message })
         }
+      }
+    } catch (error: any) {
+      log('warn', '轮询关键词订阅失败', { message: error.message })
+    } finally {
+      pollingWatches = false
+    }
+  }
+  ctx.on('ready', pollWatches)
+  ctx.setInterval(pollWatches, config.watchPollInterval)
 
-        log('info', '响应原始数据', {
-          status: result.status,
-          illustsCount: result.data.illusts?.length || 0,
-          nextUrl: result.data.next_url,
-        })
+  // 关键词订阅命令
+  log('info', '注册关键词订阅命令')
+  ctx.command('订阅搜索 <keywords:text>', '为当前频道订阅关键词，有新作品时自动推送', { authority: config.adminAuthority })
+    .alias('pixiv-watch')
+    .option('sort', '-s <type>')
+    .option('target', '-t <type>')
+    .option('min', '-m <bookmarks:natural>')
+    .action(async ({ session, options }, keywords) => {
+      if (!keywords) {
+        return '请输入要订阅的关键词哦~，比如：订阅搜索 初音ミク -m 1000'
+      }
+      if (session.isDirect || !session.channelId) {
+        return '关键词订阅仅支持在群聊或频道中使用哦~'
+      }
+      const sort = options.sort || 'date'
+      const target = options.target || 'tag'
+      if (!sortMap[sort]) {
+        return `无效的排序方式：${sort}，可选：${Object.keys(sortMap).join('、')}`
+      }
+      if (!targetMap[target]) {
+        return `无效的搜索范围：${target}，可选：${Object.keys(targetMap).join('、')}`
+      }
 
-        const illusts = filterIllusts(result.data.illusts || [])
+      try {
+        const watch: SearchWatch = await (ctx.database as any).create('pixiv_search_watches', {
+          platform: session.platform,
+          selfId: session.selfId,
+          channelId: session.channelId,
+          guildId: session.guildId || '',
+          keyword: keywords,
+          target,
+          sort,
+          minBookmarks: options.min || 0,
+          seenIds: null,
+          pendingIds: null,
+          checkedAt: null,
+          createdBy: session.userId,
+          createdAt: new Date(),
+        })
+        log('info', '新增关键词订阅', { id: watch.id, channelId: session.channelId, keywords, target, sort, min: options.min })
+        const minText = options.min ? `，收藏数不低于 ${options.min}` : ''
+        return `已订阅关键词「${keywords}」（#${watch.id}）${minText}，之后发布的新作品会推送到本频道`
+      } catch (error: any) {
+        log('error', '关键词订阅失败', { message: error.message, stack: error.stack })
+        return `订阅失败：${error.message || '请重试'}`
+      }
+    })
 
-        if (illusts.length === 0) {
-          searchStates.delete(sessionId)
-          log('info', '没有更多图片了，清除搜索状态', { sessionId })
-          return '看起来没有更多图片了呢......'
+  // 关键词订阅列表命令
+  log('info', '注册关键词订阅列表命令')
+  ctx.command('搜索订阅列表', '查看当前频道的关键词订阅')
+    .alias('pixiv-watches')
+    .action(async ({ session }) => {
+      try {
+        const watches: SearchWatch[] = await (ctx.database as any).get('pixiv_search_watches', {
+          platform: session.platform,
+          channelId: session.channelId,
+        })
+        if (watches.length === 0) {
+          return '当前频道还没有订阅任何关键词哦~'
         }
+        return [
+          '当前频道的关键词订阅：',
+          ...watches.map(item => `#${item.id} ${item.keyword}｜${item.target} / ${item.sort}｜收藏 ≥ ${item.minBookmarks}｜上次检查 ${item.checkedAt ? formatTime(item.checkedAt) : '无'}`),
+        ].join('\n')
+      } catch (error: any) {
+        log('error', '查询关键词订阅失败', { message: error.message, stack: error.stack })
+        return `查询关键词订阅失败：${error.message || '请重试'}`
+      }
+    })
 
-        // 更新搜索状态
-        searchStates.set(sessionId, {
-          ...state,
-          offset: state.offset + illusts.length,
-          nextUrl: result.data.next_url || null,
+  // 取消关键词订阅命令，只能取消当前频道的订阅
+  log('info', '注册取消关键词订阅命令')
+  ctx.command('取消搜索订阅 <id:posint>', '取消当前频道的关键词订阅', { authority: config.adminAuthority })
+    .alias('pixiv-unwatch')
+    .action(async ({ session }, id) => {
+      if (!id) {
+        return '请输入要取消的订阅编号哦~，可以通过"搜索订阅列表"查看'
+      }
+      try {
+        const [watch]: SearchWatch[] = await (ctx.database as any).get('pixiv_search_watches', {
+          id,
+          platform: session.platform,
+          channelId: session.channelId,
         })
-        log('info', '搜索状态已更新', { sessionId, state: searchStates.get(sessionId) })
-
-        // 发送图片
-        const toSend = illusts.slice(0, config.searchResultCount)
-        log('info', `准备发送 ${toSend.length} 张图片`)
-        for (const illust of toSend) {
-          await sendIllust(session, illust)
+        if (!watch) {
+          return `当前频道没有编号为 #${id} 的关键词订阅`
         }
+        await (ctx.database as any).remove('pixiv_search_watches', { id })
+        log('info', '取消关键词订阅', { id, channelId: session.channelId })
+        return `已取消关键词订阅 #${id}「${watch.keyword}」`
+      } catch (error: any) {
+        log('error', '取消关键词订阅失败', { message: error.message, stack: error.stack })
+        return `取消关键词订阅失败：${error.message || '请重试'}`
+      }
+    })
 
-        return `已发送 ${toSend.length} 张图片，输入"下一页"查看更多`
+  // 展示历史命令
+  log('info', '注册历史命令')
+  ctx.command('历史 [page:posint]', '查看当前频道最近展示过的插画')
+    .alias('pixiv-history')
+    .action(async ({ session }, page = 1) => {
+      const pageSize = 10
+      try {
+        const rows: ShownHistory[] = await (ctx.database as any)
+          .select('pixiv_shown_history')
+          .where({
+            scope: getHistoryScope(session),
+            shownAt: { $gte: new Date(Date.now() - config.historyTTL) },
+          })
+          .orderBy('shownAt', 'desc')
+          .limit(pageSize)
+          .offset((page - 1) * pageSize)
+          .execute()
+        if (rows.length === 0) {
+          return page > 1 ? '没有更多历史记录了哦~' : '最近还没有展示过插画哦~'
+        }
+        return [
+          `最近展示过的插画（第 ${page} 页）：`,
+          ...rows.map((row, index) => `${(page - 1) * pageSize + index + 1}. ${row.title || '无标题'} - ${row.authorName || '未知'}（ID: ${row.illustId}，${formatTime(row.shownAt)}）`),
+          '使用"收藏 <ID>"收藏其中的插画',
+        ].join('\n')
       } catch (error: any) {
-        log('error', '下一页请求失败', {
-          sessionId,
-          state,
-          message: error.message,
-          stack: error.stack,
-          response: error.response?.data,
-          status: error.response?.status,
-          code: error.code,
-          address: error.address,
-          syscall: error.syscall,
-        })
-        return `获取失败：${error.message || '请求失败，请重试'}`
+        log('error', '查询展示历史失败', { message: error.message, stack: error.stack })
+        return `查询历史失败：${error.message || '请重试'}`
       }
     })
 
@@ -1058,11 +3894,19 @@ export function apply(ctx: Context, config: Config) {
       refreshToken: config.refreshToken ? '***' + config.refreshToken.slice(-4) : 'empty',
       searchResultCount: config.searchResultCount,
       enableR18: config.enableR18,
+      enableR18G: config.enableR18G,
       enableAI: config.enableAI,
+      stateTTL: config.stateTTL,
+      requestConcurrency: config.requestConcurrency,
+      requestRetries: config.requestRetries,
     },
     commands: [
-      '搜图 [keywords] [--sort <type>] [--target <type>] [--duration <type>]',
-      '搜作者 <authorId>',
+      '搜图 [keywords] [--sort <type>] [--target <type>] [--duration <type>] [--start <date>] [--end <date>] [-b <bookmarks>] [-v <views>] [-p <pages>] [-o <orientation>] [-x <tags>]',
+      '搜作者 <authorId|name> [--type <illust|manga>]',
+      '作者信息 <authorId|name>',
+      '相似 [illustId]',
+      '以图搜图',
+      '排行榜 [mode] [--date <YYYY-MM-DD>] [--offset <n>]',
       '每日热门',
       '每周热门',
       '每月热门',
@@ -1074,10 +3918,33 @@ export function apply(ctx: Context, config: Config) {
       'R18 每日 (需启用 R18)',
       'R18 每周 (需启用 R18)',
       '推荐插画',
-      '插画详情 <illustId>',
-      '收藏 / fav',
-      '查询最爱 / favorites',
+      '随机 [query] [-r <ranking>] [-b <bookmarks>] [-v <views>] [-s] [-o <orientation>]',
+      '插画详情 <illustId> [--pages <range>] [--forward]',
+      '查看分页 <range> [--forward]',
+      '收藏 [illustId] [-f <folder>] [-n <note>] / fav',
+      '取消收藏 [illustId] / unfav',
+      '收藏备注 <illustId> [note] / fav-note',
+      '收藏夹 [folder] [page] / fav-folders',
+      '历史 [page]',
+      '查询最爱 [page] [-f <folder>] [-t <tag>] [-a <author>] [-l] / favorites',
+      '导出收藏 [json|csv] [-f <folder>] / fav-export',
+      '导入收藏 [content] [-f <folder>] / fav-import',
+      '书签 [-p] / pixiv-bookmarks',
+      '导入书签 [-p] [-f <folder>] / pixiv-import-bookmarks',
       '下一页',
+      '内容策略 [r18|r18g|ai|max] [value] [--level <guild|channel>]',
+      '说明模板 [template] [-c <command>] [-r] [--level <guild|channel>]',
+      '过滤原因 <illustId>',
+      '图片缓存 [--clear]',
+      '订阅排行 <ranking> [cron] [-n <count>]',
+      '订阅列表',
+      '取消订阅 <id>',
+      '关注作者 <authorId> [-c]',
+      '取消关注 <authorId> [-c]',
+      '关注列表 [-c]',
+      '订阅搜索 <keywords> [--sort <type>] [--target <type>] [--min <bookmarks>]',
+      '搜索订阅列表',
+      '取消搜索订阅 <id>',
       'pixiv-test',
     ],
   })
@@ -1087,8 +3954,18 @@ export function apply(ctx: Context, config: Config) {
     .alias('测图')
     .action(async ({ session }) => {
       log('info', `开始测试 Pixiv 连接... 用户：${session.userId}`)
+      const network = describeNetwork()
+      const requests = scheduler.stats()
+      const networkText = [
+        `- API 代理：${network.apiProxy}`,
+        `- 图片代理：${network.imageProxy}`,
+        `- 图片镜像：${network.imageMirror}`,
+        `- 超时：${network.timeout}`,
+        `- 请求队列：进行中 ${requests.active}/${config.requestConcurrency}，排队 ${requests.queued}，累计重试 ${requests.retries} 次，失败 ${requests.failed} 次`,
+      ].join('\n')
       const result: any = {
-        proxy: process.env.HTTPS_PROXY || '未设置',
+        network,
+        requests,
         refreshToken: config.refreshToken ? '已配置' : '未配置',
         success: false,
         error: null,
@@ -1097,7 +3974,8 @@ export function apply(ctx: Context, config: Config) {
       try {
         // 先做一次网络可达性探测，避免 Token 请求阻塞排查
         const probeConfig: any = {
-          timeout: 8000,
+          ...apiRequestConfig,
+          timeout: Math.min(8000, config.apiTimeout),
           maxRedirects: 0,
           validateStatus: () => true,
           headers: {
@@ -1105,20 +3983,20 @@ export function apply(ctx: Context, config: Config) {
             Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
           },
         }
-        const probe = await axios.get('https://oauth.secure.pixiv.net', probeConfig)
+        const probe = await axios.get(PIXIV_OAUTH_URL, probeConfig)
         log('info', 'OAuth 可达性探测', {
           status: probe.status,
           headers: summarizeHeaders(probe.headers),
           body: probe.status >= 400 ? toShortBody(probe.data) : undefined,
         })
 
-        const client = await Pixiv.of(config.refreshToken)
+        const client = await loginPixiv()
         result.userId = client.userId
         result.success = true
         log('info', '测试成功', { userId: client.userId })
 
         return `✅ Pixiv 连接测试成功！
-- 代理配置：${result.proxy}
+${networkText}
 - Token 状态：有效
 - 用户 ID: ${client.userId}`
       } catch (error: any) {
@@ -1135,18 +4013,18 @@ export function apply(ctx: Context, config: Config) {
         })
 
         let errorMsg = `❌ Pixiv 连接测试失败！\n`
-        errorMsg += `- 代理配置：${result.proxy}\n`
+        errorMsg += `${networkText}\n`
         errorMsg += `- 错误信息：${error.message}\n`
 
         if (error.code === 'ETIMEDOUT' || error.code === 'ECONNREFUSED') {
           errorMsg += `\n💡 提示：这通常是网络连接问题。请检查：\n`
-          errorMsg += `1. 代理地址是否正确配置\n`
+          errorMsg += `1. apiProxy / imageProxy 是否正确配置\n`
           errorMsg += `2. 代理服务器是否正常运行\n`
           errorMsg += `3. 服务器是否可以访问代理服务器`
         } else if (error.message.includes('Failed to refresh token')) {
           errorMsg += `\n💡 提示：Token 刷新失败，可能原因：\n`
           errorMsg += `1. Refresh Token 已过期或无效，请重新获取\n`
-          errorMsg += `2. 无法访问 Pixiv OAuth 服务器 (https://oauth.secure.pixiv.net)\n`
+          errorMsg += `2. 无法访问 Pixiv OAuth 服务器 (${PIXIV_OAUTH_URL})\n`
           errorMsg += `3. 代理配置不正确`
         }
 
@@ -0,0 +1,72 @@
+import type { Agent } from 'node:http'
+import { HttpProxyAgent } from 'http-proxy-agent'
+import { HttpsProxyAgent } from 'https-proxy-agent'
+import { SocksProxyAgent } from 'socks-proxy-agent'
+
+/** Pixiv 图片 CDN 的域名 */
+export const PXIMG_HOST = 'i.pximg.net'
+
+/** imageProxy 取该值时表示图片直连，不使用代理 */
+export const DIRECT = 'direct'
+
+/** 支持的代理地址格式，留空表示不使用代理 */
+export const PROXY_PATTERN = /^(?:(?:https?|socks[45]?h?):\/\/\S+)?$/
+
+/** 图片代理额外允许填写 direct */
+export const IMAGE_PROXY_PATTERN = /^(?:direct|(?:https?|socks[45]?h?):\/\/\S+)?$/
+
+export interface ProxyAgents {
+  httpAgent?: Agent
+  httpsAgent?: Agent
+}
+
+// 根据代理地址创建 axios 使用的 Agent，支持 http(s):// 与 socks(4/5):// 代理；留空时返回空对象
+export function createProxyAgents(proxy: string): ProxyAgents {
+  if (!proxy || proxy === DIRECT) return {}
+
+  let protocol: string
+  try {
+    ({ protocol } = new URL(proxy))
+  } catch {
+    throw new Error('代理地址格式错误，应为 http://、https:// 或 socks5:// 开头的完整地址')
+  }
+  if (protocol.startsWith('socks')) {
+    const agent = new SocksProxyAgent(proxy)
+    return { httpAgent: agent, httpsAgent: agent }
+  }
+  if (protocol === 'http:' || protocol === 'https:') {
+    return { httpAgent: new HttpProxyAgent(proxy), httpsAgent: new HttpsProxyAgent(proxy) }
+  }
+  throw new Error(`不支持的代理协议：${protocol}`)
+}
+
+// 将 i.pximg.net 的地址改写到镜像，镜像可以只写域名，也可以带协议和路径前缀
+export function rewriteImageUrl(url: string, mirror: string) {
+  if (!mirror) return url
+
+  const target = new URL(url)
+  if (target.hostname !== PXIMG_HOST) return url
+
+  const base = new URL(/^https?:\/\//.test(mirror) ? mirror : `https://${mirror}`)
+  target.protocol = base.protocol
+  target.host = base.host
+  if (base.pathname !== '/') {
+    target.pathname = base.pathname.replace(/\/$/, '') + target.pathname
+  }
+  return target.href
+}
+
+// 隐藏代理地址中的账号密码，用于日志和诊断输出
+export function maskProxy(proxy: string) {
+  if (!proxy || proxy === DIRECT) return proxy
+  try {
+    const url = new URL(proxy)
+    if (url.username || url.password) {
+      url.username = '***'
+      url.password = ''
+    }
+    return url.href
+  } catch {
+    return proxy
+  }
+}
@@ -0,0 +1,149 @@
+import axios, { AxiosRequestConfig } from 'axios'
+
+/** 待搜索的图片 */
+export interface ReverseSearchImage {
+  data: Buffer
+  mime?: string
+  filename?: string
+}
+
+/** 以图搜图的一条匹配结果，只保留能对应到 Pixiv 作品的结果 */
+export interface ReverseSearchMatch {
+  illustId: number
+  /** 相似度，0-100 */
+  similarity: number
+  title?: string
+  authorName?: string
+  url?: string
+}
+
+export interface ReverseSearchProvider {
+  name: string
+  /** 返回按相似度从高到低排列的匹配结果 */
+  search: (image: ReverseSearchImage) => Promise<ReverseSearchMatch[]>
+}
+
+export interface ReverseSearchOptions {
+  apiKey: string
+  /** 低于该相似度的结果会被丢弃 */
+  minSimilarity: number
+  maxResults: number
+  /** 附加到 HTTP 请求上的配置，例如代理和超时 */
+  requestConfig?: AxiosRequestConfig
+}
+
+export type ReverseSearchProviderFactory = (options: ReverseSearchOptions) => ReverseSearchProvider
+
+// 根据配置创建以图搜图服务：填写名称时从 factories 中查找，也可以直接传入实现了 ReverseSearchProvider 的对象
+export function createReverseSearchProvider(
+  provider: string | ReverseSearchProvider,
+  options: ReverseSearchOptions,
+  factories: Record<string, ReverseSearchProviderFactory> = reverseSearchProviders,
+) {
+  if (typeof provider !== 'string') return provider
+  const factory = factories[provider]
+  if (!factory) {
+    throw new Error(`未知的以图搜图服务：${provider}，可选：${Object.keys(factories).join(' / ')}`)
+  }
+  return factory(options)
+}
+
+/** 以图搜图的处理结果 */
+export type ReverseSearchResult =
+  | { type: 'empty' }
+  /** 最佳匹配的作品已被删除 */
+  | { type: 'missing', match: ReverseSearchMatch }
+  /** 最佳匹配的作品不符合内容策略 */
+  | { type: 'filtered', match: ReverseSearchMatch }
+  | { type: 'found', match: ReverseSearchMatch, illust: any, others: ReverseSearchMatch[] }
+
+/**
+ * 搜索图片并获取相似度最高的作品详情。最佳匹配不可用时不会改用其他匹配，
+ * 相似度较低的结果只作为参考列出。
+ */
+export async function resolveReverseSearch(
+  provider: ReverseSearchProvider,
+  image: ReverseSearchImage,
+  fetchIllust: (illustId: number) => Promise<any>,
+  isAllowed: (illust: any) => boolean,
+): Promise<ReverseSearchResult> {
+  const [match, ...others] = await provider.search(image)
+  if (!match) return { type: 'empty' }
+
+  const illust = await fetchIllust(match.illustId)
+  if (!illust) return { type: 'missing', match }
+  if (!isAllowed(illust)) return { type: 'filtered', match }
+  return { type: 'found', match, illust, others }
+}
+
+// 返回固定结果的服务，用于测试和离线调试，同样按相似度和数量筛选
+export function createStubProvider(matches: ReverseSearchMatch[]): ReverseSearchProviderFactory {
+  return options => ({
+    name: 'stub',
+    search: async () => matches
+      .filter(match => match.similarity >= options.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.maxResults),
+  })
+}
+
+const SAUCENAO_ENDPOINT = 'https://saucenao.com/search.php'
+
+/** SauceNAO 中 Pixiv 图库的索引 */
+const SAUCENAO_PIXIV_INDEX = 5
+
+// SauceNAO：上传图片文件，只在 Pixiv 图库中搜索
+export function createSauceNaoProvider(options: ReverseSearchOptions): ReverseSearchProvider {
+  const search = async (image: ReverseSearchImage) => {
+    if (!options.apiKey) {
+      throw new Error('未配置 SauceNAO API Key')
+    }
+
+    const form = new FormData()
+    form.append('file', new Blob([new Uint8Array(image.data)], { type: image.mime || 'application/octet-stream' }), image.filename || 'image')
+
+    let response: any
+    try {
+      response = await axios.post(SAUCENAO_ENDPOINT, form, {
+        ...options.requestConfig,
+        params: {
+          output_type: 2,
+          api_key: options.apiKey,
+          db: SAUCENAO_PIXIV_INDEX,
+          numres: Math.max(options.maxResults, 1) * 2,
+        },
+      })
+    } catch (error: any) {
+      const status = error.response?.status
+      if (status === 429) throw new Error('SauceNAO 搜索次数已达上限，请稍后再试')
+      if (status === 403) throw new Error('SauceNAO API Key 无效')
+      throw error
+    }
+
+    const { header, results } = response.data || {}
+    if (!results) {
+      throw new Error(header?.message?.replace(/<[^>]+>/g, '') || 'SauceNAO 没有返回结果')
+    }
+
+    return results
+      .map((result: any): ReverseSearchMatch => ({
+        illustId: Number(result.data?.pixiv_id),
+        similarity: Number(result.header?.similarity),
+        title: result.data?.title,
+        authorName: result.data?.member_name,
+        url: result.data?.ext_urls?.[0],
+      }))
+      .filter((match: ReverseSearchMatch) => match.illustId && match.similarity >= options.minSimilarity)
+      .sort((a: ReverseSearchMatch, b: ReverseSearchMatch) => b.similarity - a.similarity)
+      // 同一作品的不同页只保留相似度最高的一条
+      .filter((match: ReverseSearchMatch, index: number, list: ReverseSearchMatch[]) => list.findIndex(item => item.illustId === match.illustId) === index)
+      .slice(0, options.maxResults)
+  }
+
+  return { name: 'saucenao', search }
+}
+
+/** 内置的以图搜图服务 */
+export const reverseSearchProviders: Record<string, ReverseSearchProviderFactory> = {
+  saucenao: createSauceNaoProvider,
+}
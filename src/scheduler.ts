@@ -0,0 +1,121 @@
+export interface SchedulerOptions {
+  /** 同时进行的请求数上限 */
+  concurrency: number
+  /** 失败后的最大重试次数 */
+  retries: number
+  /** 第一次重试前的基础等待时间（毫秒），之后按 2 的幂增长 */
+  baseDelay: number
+  /** 单次等待时间上限（毫秒） */
+  maxDelay: number
+}
+
+export interface SchedulerStats {
+  /** 正在进行的请求数 */
+  active: number
+  /** 排队等待的请求数 */
+  queued: number
+  completed: number
+  failed: number
+  /** 累计重试次数 */
+  retries: number
+}
+
+export interface RetryEvent {
+  label: string
+  attempt: number
+  delay: number
+  error: any
+  queued: number
+}
+
+/** 判断错误是否值得重试，返回 true 时按退避策略重试 */
+export type RetryPredicate = (error: any, attempt: number) => boolean | Promise<boolean>
+
+export interface Scheduler {
+  /** 在并发限制内执行任务，失败时按 shouldRetry 的判断重试 */
+  run: <T>(label: string, task: () => Promise<T>, shouldRetry?: RetryPredicate) => Promise<T>
+  stats: () => SchedulerStats
+}
+
+const RETRYABLE_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'ERR_SOCKET_CONNECTION_TIMEOUT']
+
+// 429、5xx 和常见的瞬时网络错误可以重试
+export function isRetryableError(error: any) {
+  const status = error?.response?.status
+  if (status === 429 || status >= 500) return true
+  if (RETRYABLE_CODES.includes(error?.code)) return true
+  return /socket hang up/i.test(error?.message || '')
+}
+
+// 读取 429 响应中的 Retry-After（秒或 HTTP 日期），返回毫秒
+export function getRetryAfter(error: any): number | undefined {
+  const value = error?.response?.headers?.['retry-after']
+  if (!value) return
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * 请求调度器：所有任务共享一个并发上限，重试前的退避等待不占用并发名额。
+ * 退避时间为 baseDelay * 2^attempt，并乘以 0.5~1 的随机抖动，避免大量请求同时重试。
+ */
+export function createScheduler(options: SchedulerOptions, onRetry?: (event: RetryEvent) => void): Scheduler {
+  const waiting: (() => void)[] = []
+  let active = 0
+  let completed = 0
+  let failed = 0
+  let retries = 0
+
+  const acquire = async () => {
+    if (active >= options.concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve))
+    }
+    active++
+  }
+
+  const release = () => {
+    active--
+    waiting.shift()?.()
+  }
+
+  const run = async <T>(label: string, task: () => Promise<T>, shouldRetry: RetryPredicate = isRetryableError): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      let error: any
+      await acquire()
+      try {
+        const result = await task()
+        completed++
+        return result
+      } catch (e) {
+        error = e
+      } finally {
+        release()
+      }
+
+      if (attempt >= options.retries || !await shouldRetry(error, attempt)) {
+        failed++
+        throw error
+      }
+
+      const backoff = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2)
+      const delay = Math.min(options.maxDelay, Math.max(backoff, getRetryAfter(error) ?? 0))
+      retries++
+      onRetry?.({ label, attempt: attempt + 1, delay, error, queued: waiting.length })
+      await sleep(delay)
+    }
+  }
+
+  const stats = (): SchedulerStats => ({
+    active,
+    queued: waiting.length,
+    completed,
+    failed,
+    retries,
+  })
+
+  return { run, stats }
+}
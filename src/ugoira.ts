@@ -0,0 +1,69 @@
+import { setImmediate } from 'node:timers/promises'
+import { unzipSync } from 'fflate'
+import { decode } from 'jpeg-js'
+import { GIFEncoder, applyPalette, quantize } from 'gifenc'
+
+/** 动图元数据中的一帧 */
+export interface UgoiraFrame {
+  /** ZIP 中的文件名 */
+  file: string
+  /** 帧间隔（毫秒） */
+  delay: number
+}
+
+export interface UgoiraOptions {
+  /** 最多保留的帧数，超出时均匀抽帧并合并被丢弃帧的间隔 */
+  maxFrames: number
+  /** 输出大小上限（字节），编码过程中一旦超出就停止并抛出错误 */
+  maxSize: number
+}
+
+// 均匀抽取至多 maxFrames 帧，被跳过的帧的间隔累加到保留的帧上，保持总时长不变
+export function sampleFrames(frames: UgoiraFrame[], maxFrames: number): UgoiraFrame[] {
+  if (frames.length <= maxFrames) return frames
+  const step = Math.ceil(frames.length / maxFrames)
+  const sampled: UgoiraFrame[] = []
+  for (let i = 0; i < frames.length; i += step) {
+    const group = frames.slice(i, i + step)
+    sampled.push({
+      file: group[0].file,
+      delay: group.reduce((total, frame) => total + frame.delay, 0),
+    })
+  }
+  return sampled
+}
+
+/**
+ * 将动图的帧 ZIP 合成为 GIF。
+ * 全部使用纯 JS 实现（fflate 解压、jpeg-js 解码、gifenc 编码），每帧之间让出事件循环。
+ * 每写入一帧检查一次大小，超出上限时不再编码剩余的帧。
+ */
+export async function encodeUgoiraGif(zip: Uint8Array, frames: UgoiraFrame[], options: UgoiraOptions): Promise<Buffer> {
+  const files = unzipSync(zip)
+  const encoder = GIFEncoder()
+  const checkSize = (size: number) => {
+    if (size > options.maxSize) {
+      throw new Error(`动图过大：超过 ${(options.maxSize / 1024 / 1024).toFixed(1)} MB`)
+    }
+  }
+
+  for (const frame of sampleFrames(frames, options.maxFrames)) {
+    const data = files[frame.file]
+    if (!data) {
+      throw new Error(`动图帧不存在：${frame.file}`)
+    }
+
+    const image = decode(data, { useTArray: true, formatAsRGBA: true })
+    const palette = quantize(image.data, 256)
+    const index = applyPalette(image.data, palette)
+    encoder.writeFrame(index, image.width, image.height, { palette, delay: frame.delay })
+    checkSize(encoder.bytesView().length)
+
+    await setImmediate()
+  }
+
+  encoder.finish()
+  const output = Buffer.from(encoder.bytes())
+  checkSize(output.length)
+  return output
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createImageCache } from '../src/cache'
+
+let directory: string
+
+const createCache = (maxSize = 10, enabled = true) => createImageCache({ enabled, directory, maxSize })
+
+// 记录下载次数的下载函数
+const createDownloader = (size: number) => {
+  const download = async () => {
+    download.calls++
+    return Buffer.alloc(size)
+  }
+  download.calls = 0
+  return download
+}
+
+describe('image cache', () => {
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'pixiv-cache-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('serves repeated requests from disk', async () => {
+    const cache = createCache()
+    const download = createDownloader(4)
+    await cache.get('a', download)
+    const data = await cache.get('a', download)
+    assert.equal(download.calls, 1)
+    assert.equal(data.length, 4)
+    assert.deepEqual(await cache.stats(), {
+      enabled: true,
+      directory,
+      entries: 1,
+      size: 4,
+      maxSize: 10,
+      hits: 1,
+      misses: 1,
+      pending: 0,
+    })
+  })
+
+  it('evicts the least recently used entry', async () => {
+    const cache = createCache()
+    const a = createDownloader(4)
+    const b = createDownloader(4)
+    await cache.get('a', a)
+    await cache.get('b', b)
+    await cache.get('a', a)
+    await cache.get('c', createDownloader(4))
+
+    await cache.get('a', a)
+    assert.equal(a.calls, 1)
+    await cache.get('b', b)
+    assert.equal(b.calls, 2)
+    assert.ok((await cache.stats()).size <= 10)
+  })
+
+  it('does not store images larger than the size limit', async () => {
+    const cache = createCache()
+    const download = createDownloader(11)
+    await cache.get('large', download)
+    await cache.get('large', download)
+    assert.equal(download.calls, 2)
+    assert.equal((await cache.stats()).entries, 0)
+    assert.deepEqual(await fs.readdir(directory), [])
+  })
+
+  it('shares one download between concurrent requests', async () => {
+    const cache = createCache()
+    let resolve!: (data: Buffer) => void
+    let calls = 0
+    const download = () => {
+      calls++
+      return new Promise<Buffer>(callback => resolve = callback)
+    }
+    const first = cache.get('a', download)
+    const second = cache.get('a', download)
+    assert.equal(first, second)
+    assert.equal((await cache.stats()).pending, 1)
+
+    // 等待缓存目录扫描完成后才会开始下载
+    while (!calls) await new Promise(callback => setImmediate(callback))
+    resolve(Buffer.alloc(4))
+    assert.equal((await first).length, 4)
+    assert.equal(calls, 1)
+    assert.equal((await cache.stats()).pending, 0)
+  })
+
+  it('restores entries from the directory after a restart', async () => {
+    await createCache().get('a', createDownloader(4))
+    const download = createDownloader(4)
+    const cache = createCache()
+    await cache.get('a', download)
+    assert.equal(download.calls, 0)
+    assert.equal(await cache.clear(), 1)
+    assert.deepEqual(await fs.readdir(directory), [])
+  })
+
+  it('does not touch the directory when disabled', async () => {
+    const missing = join(directory, 'disabled')
+    const cache = createImageCache({ enabled: false, directory: missing, maxSize: 10 })
+    const download = createDownloader(4)
+    await cache.get('a', download)
+    await cache.get('a', download)
+    assert.equal(download.calls, 2)
+    assert.equal((await cache.stats()).entries, 0)
+    assert.equal(await cache.clear(), 0)
+    await assert.rejects(fs.stat(missing), { code: 'ENOENT' })
+  })
+})
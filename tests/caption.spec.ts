@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { DEFAULT_CAPTION_TEMPLATE, VERBOSE_CAPTION_TEMPLATE, renderCaption, resolveCaptionTemplate, validateCaptionTemplate } from '../src/caption'
+
+const illust = {
+  id: 100,
+  title: '夕焼け',
+  user: { id: 7, name: '作者' },
+  tags: [{ name: '風景', translated_name: 'scenery' }, { name: 'オリジナル', translated_name: null }],
+  total_bookmarks: 1234,
+  total_view: 5678,
+  create_date: '2024-03-01T12:00:00+09:00',
+  caption: '第一行<br />第二行 &amp; <a href="https://example.com">链接</a>',
+  meta_pages: [{}, {}, {}],
+}
+
+const options = { page: 1, maxCaptionLength: 100 }
+
+describe('caption rendering', () => {
+  it('renders the default template', () => {
+    assert.equal(renderCaption(DEFAULT_CAPTION_TEMPLATE, illust, options), '标题：夕焼け [2/3]\n作者：作者\nID: 100')
+  })
+
+  it('renders the verbose template with every field', () => {
+    assert.equal(renderCaption(VERBOSE_CAPTION_TEMPLATE, illust, options), [
+      '标题：夕焼け [2/3]',
+      '作者：作者（7）',
+      '标签：#風景 #オリジナル',
+      '翻译：#scenery',
+      '收藏 1234 · 浏览 5678 · 发布于 2024-03-01',
+      'https://www.pixiv.net/artworks/100',
+      '第一行\n第二行 & 链接',
+    ].join('\n'))
+  })
+
+  it('drops lines whose placeholders are all empty', () => {
+    const single = { ...illust, meta_pages: [], tags: [{ name: '風景' }], caption: '' }
+    assert.equal(renderCaption('{title}{page}\n翻译：{translatedTags}\n{caption}\n固定文字', single, options), '夕焼け\n固定文字')
+  })
+
+  it('truncates long captions', () => {
+    assert.equal(renderCaption('{caption}', { ...illust, caption: 'abcdef' }, { ...options, maxCaptionLength: 3 }), 'abc…')
+  })
+
+  it('keeps unknown placeholders as they are', () => {
+    assert.equal(renderCaption('{title} {unknown}', illust, options), '夕焼け {unknown}')
+    assert.deepEqual(validateCaptionTemplate('{title} {unknown} {id} {other}'), ['unknown', 'other'])
+  })
+})
+
+describe('caption template lookup', () => {
+  const channel = { '': 'channel', '搜图': 'channel 搜图' }
+  const guild = { '': 'guild', '排行榜': 'guild 排行榜' }
+  const configured = { '推荐插画': 'config 推荐插画' }
+
+  it('prefers command templates over generic ones at any level', () => {
+    const resolve = (command?: string) => resolveCaptionTemplate(command, [channel, guild], configured, 'config')
+    assert.equal(resolve('搜图'), 'channel 搜图')
+    assert.equal(resolve('排行榜'), 'guild 排行榜')
+    assert.equal(resolve('推荐插画'), 'config 推荐插画')
+    assert.equal(resolve('插画详情'), VERBOSE_CAPTION_TEMPLATE)
+    assert.equal(resolve('下一页'), 'channel')
+    assert.equal(resolve(), 'channel')
+  })
+
+  it('lets configured command templates replace the built-in ones', () => {
+    assert.equal(resolveCaptionTemplate('插画详情', [], { '插画详情': '{title}' }, 'config'), '{title}')
+  })
+
+  it('falls back to the group and then to the configured generic template', () => {
+    assert.equal(resolveCaptionTemplate('搜图', [{}, guild], {}, 'config'), 'guild')
+    assert.equal(resolveCaptionTemplate('搜图', [{}, {}], {}, 'config'), 'config')
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getNextRun, parseCron } from '../src/cron'
+
+// 按服务器本地时区构造时间，与 getNextRun 的计算方式一致
+const at = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) => {
+  return new Date(year, month - 1, day, hour, minute, second)
+}
+
+const next = (expression: string, after: Date) => getNextRun(parseCron(expression), after)
+
+describe('parseCron', () => {
+  it('parses steps, ranges and lists', () => {
+    const schedule = parseCron('*/15 9-11 1,15 */3 1-5')
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45])
+    assert.deepEqual([...schedule.hours], [9, 10, 11])
+    assert.deepEqual([...schedule.days], [1, 15])
+    assert.deepEqual([...schedule.months], [1, 4, 7, 10])
+    assert.deepEqual([...schedule.weekdays], [1, 2, 3, 4, 5])
+    assert.equal(schedule.dayOrWeekday, true)
+  })
+
+  it('parses a range with a step and a start with a step', () => {
+    assert.deepEqual([...parseCron('10-30/10 * * * *').minutes], [10, 20, 30])
+    assert.deepEqual([...parseCron('50/5 * * * *').minutes], [50, 55])
+  })
+
+  it('treats 7 as Sunday', () => {
+    assert.deepEqual([...parseCron('0 0 * * 7').weekdays], [0])
+    assert.deepEqual([...parseCron('0 0 * * 5-7').weekdays].sort(), [0, 5, 6])
+  })
+
+  it('expands aliases and normalizes whitespace', () => {
+    assert.deepEqual([...parseCron('@daily').hours], [0])
+    assert.equal(parseCron('  0   8 * *  * ').source, '0 8 * * *')
+  })
+
+  it('rejects invalid expressions', () => {
+    assert.throws(() => parseCron('0 8 * *'), /需要 5 个字段/)
+    assert.throws(() => parseCron('0 8 * * * *'), /需要 5 个字段/)
+    assert.throws(() => parseCron('a 8 * * *'), /分钟字段格式错误：a/)
+    assert.throws(() => parseCron('60 8 * * *'), /分钟字段超出范围/)
+    assert.throws(() => parseCron('0 24 * * *'), /小时字段超出范围/)
+    assert.throws(() => parseCron('0 8 0 * *'), /日期字段超出范围/)
+    assert.throws(() => parseCron('0 8 * 13 *'), /月份字段超出范围/)
+    assert.throws(() => parseCron('0 8 * * 8'), /星期字段超出范围/)
+    assert.throws(() => parseCron('0 8 5-1 * *'), /日期字段超出范围/)
+    assert.throws(() => parseCron('*/0 8 * * *'), /分钟字段超出范围/)
+    assert.throws(() => parseCron('0 8 1,,2 * *'), /日期字段格式错误/)
+  })
+})
+
+describe('getNextRun', () => {
+  it('returns a time strictly after the given one', () => {
+    assert.deepEqual(next('0 8 * * *', at(2024, 1, 10, 7, 59)), at(2024, 1, 10, 8))
+    assert.deepEqual(next('0 8 * * *', at(2024, 1, 10, 8)), at(2024, 1, 11, 8))
+    assert.deepEqual(next('0 8 * * *', at(2024, 1, 10, 8, 0, 30)), at(2024, 1, 11, 8))
+  })
+
+  it('follows minute steps within the hour', () => {
+    assert.deepEqual(next('*/15 * * * *', at(2024, 1, 10, 8, 16)), at(2024, 1, 10, 8, 30))
+    assert.deepEqual(next('*/15 * * * *', at(2024, 1, 10, 8, 50)), at(2024, 1, 10, 9))
+  })
+
+  it('rolls over to the next month and year', () => {
+    assert.deepEqual(next('0 8 * * *', at(2024, 1, 31, 10)), at(2024, 2, 1, 8))
+    assert.deepEqual(next('* * * * *', at(2024, 12, 31, 23, 59)), at(2025, 1, 1, 0, 0))
+    assert.deepEqual(next('0 0 31 * *', at(2024, 4, 1)), at(2024, 5, 31))
+    assert.deepEqual(next('0 0 29 2 *', at(2024, 3, 1)), at(2028, 2, 29))
+  })
+
+  it('matches days of the week', () => {
+    // 2024-01-05 是周五
+    assert.deepEqual(next('0 9 * * 1-5', at(2024, 1, 5, 10)), at(2024, 1, 8, 9))
+    assert.deepEqual(next('0 0 * * 7', at(2024, 1, 1)), at(2024, 1, 7))
+  })
+
+  it('matches either the day or the weekday when both are restricted', () => {
+    assert.deepEqual(next('0 0 13 * 5', at(2024, 1, 1)), at(2024, 1, 5))
+    assert.deepEqual(next('0 0 13 * 5', at(2024, 1, 12, 1)), at(2024, 1, 13))
+  })
+
+  it('returns null for dates that never occur', () => {
+    assert.equal(next('0 0 30 2 *', at(2024, 1, 1)), null)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { FavoriteRecord, MAX_FOLDER_LENGTH, folderLabel, parseFavorites, parseFolder, parseNote, serializeFavorites } from '../src/favorites'
+
+const records: FavoriteRecord[] = [
+  { illustId: 1, folder: '', note: '', createdAt: new Date('2024-01-01T00:00:00.000Z') },
+  { illustId: 2, folder: '风景, 城市', note: '他说 "好看"\n第二行', createdAt: new Date('2024-02-01T12:30:00.000Z') },
+  { illustId: 3, folder: '人物', note: 'a,b', createdAt: undefined },
+]
+
+describe('favorite folders and notes', () => {
+  it('maps the default folder to an empty name', () => {
+    assert.equal(parseFolder(' 默认 '), '')
+    assert.equal(parseFolder(undefined), '')
+    assert.equal(parseFolder(' 风景 '), '风景')
+    assert.equal(folderLabel(''), '默认')
+    assert.throws(() => parseFolder('a'.repeat(MAX_FOLDER_LENGTH + 1)), /不能超过/)
+    assert.throws(() => parseNote('a'.repeat(201)), /备注不能超过 200 个字符/)
+  })
+})
+
+describe('favorite export', () => {
+  it('quotes CSV fields with commas, quotes and newlines', () => {
+    const csv = serializeFavorites(records, 'csv')
+    assert.equal(csv, [
+      'illustId,folder,note,createdAt',
+      '1,,,2024-01-01T00:00:00.000Z',
+      '2,"风景, 城市","他说 ""好看""\n第二行",2024-02-01T12:30:00.000Z',
+      '3,人物,"a,b",',
+      '',
+    ].join('\n'))
+  })
+
+  it('round trips through CSV and JSON', () => {
+    for (const format of ['csv', 'json'] as const) {
+      assert.deepEqual(parseFavorites(serializeFavorites(records, format)), records, format)
+    }
+  })
+})
+
+describe('favorite import', () => {
+  it('strips a byte order mark', () => {
+    assert.deepEqual(parseFavorites('\uFEFFillustId,folder\r\n5,风景\r\n'), [
+      { illustId: 5, folder: '风景', note: '', createdAt: undefined },
+    ])
+    assert.equal(parseFavorites('\uFEFF[7]')[0].illustId, 7)
+  })
+
+  it('reads CSV by header name or by position', () => {
+    assert.deepEqual(parseFavorites('note,illustId\n"x, y",8').map(record => [record.illustId, record.note]), [[8, 'x, y']])
+    assert.deepEqual(parseFavorites('9,默认,备注\n\n10').map(record => [record.illustId, record.folder, record.note]), [
+      [9, '', '备注'],
+      [10, '', ''],
+    ])
+  })
+
+  it('reads JSON arrays, ID lists and exported objects', () => {
+    assert.deepEqual(parseFavorites('[11, {"id": 12, "folder": "人物"}]').map(record => [record.illustId, record.folder]), [
+      [11, ''],
+      [12, '人物'],
+    ])
+    assert.equal(parseFavorites('{"favorites": [{"illustId": "13"}]}')[0].illustId, 13)
+    assert.equal(parseFavorites('[{"illustId": 14, "createdAt": "not a date"}]')[0].createdAt, undefined)
+    assert.deepEqual(parseFavorites('  '), [])
+  })
+
+  it('reports the row of an invalid record', () => {
+    assert.throws(() => parseFavorites('illustId\n15\nabc'), /第 3 行的插画 ID 无效：abc/)
+    assert.throws(() => parseFavorites('16\n-1'), /第 2 行的插画 ID 无效：-1/)
+    assert.throws(() => parseFavorites('[17, {"folder": "x"}]'), /第 2 条记录的插画 ID 无效/)
+    assert.throws(() => parseFavorites('[1,'), /JSON 格式错误/)
+    assert.throws(() => parseFavorites('{"items": []}'), /JSON 数据应为收藏记录的数组/)
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { FilterPolicy, FilterRules, TagRule, compileTagRule, createIllustFilter, matchSearchFilters } from '../src/filter'
+
+const rules: FilterRules = {
+  blockTags: [],
+  allowTags: [],
+  maxSanityLevel: 0,
+  illustTypes: ['illust', 'manga', 'ugoira'],
+  minBookmarks: 0,
+}
+
+const strict: FilterPolicy = { allowR18: false, allowR18G: false, allowAI: false }
+
+const open: FilterPolicy = { allowR18: true, allowR18G: true, allowAI: true }
+
+const createIllust = (tags: string[], extra: any = {}) => ({
+  id: 1,
+  type: 'illust',
+  tags: tags.map(name => ({ name, translated_name: null })),
+  x_restrict: 0,
+  illust_ai_type: 1,
+  sanity_level: 2,
+  total_bookmarks: 100,
+  width: 1000,
+  height: 1500,
+  page_count: 1,
+  ...extra,
+})
+
+const filter = (extra: Partial<FilterRules>, illust: any, policy = open) => {
+  return createIllustFilter({ ...rules, ...extra })(illust, policy)
+}
+
+const match = (rule: TagRule, tag: string) => compileTagRule(rule)(tag)
+
+describe('tag rules', () => {
+  it('matches exact, prefix and regex rules', () => {
+    assert.equal(match({ mode: 'exact', pattern: 'maid' }, 'maid'), true)
+    assert.equal(match({ mode: 'exact', pattern: 'maid' }, 'maids'), false)
+    assert.equal(match({ mode: 'prefix', pattern: 'genshin' }, 'genshinimpact'), true)
+    assert.equal(match({ mode: 'prefix', pattern: 'genshin' }, 'notgenshin'), false)
+    assert.equal(match({ mode: 'regex', pattern: '^ai$' }, 'ai'), true)
+    assert.equal(match({ mode: 'regex', pattern: '^ai$' }, 'fairy'), false)
+  })
+
+  it('ignores case and full-width characters', () => {
+    assert.deepEqual(filter({ blockTags: [{ mode: 'exact', pattern: 'Maid' }] }, createIllust(['ＭＡＩＤ'])), [
+      '命中屏蔽标签「maid」(exact:Maid)',
+    ])
+    assert.equal(filter({ blockTags: [{ mode: 'regex', pattern: '^ｋａｉｊｕ$' }] }, createIllust(['KAIJU'])).length, 1)
+    assert.equal(matchSearchFilters(createIllust(['Ｆａｉｒｙ']), { excludeTags: ['FAIRY'] }), false)
+  })
+
+  it('matches translated tag names', () => {
+    const illust = createIllust([], { tags: [{ name: 'メイド', translated_name: 'Maid' }] })
+    assert.equal(filter({ blockTags: [{ mode: 'exact', pattern: 'maid' }] }, illust).length, 1)
+  })
+
+  it('requires at least one allow rule to match', () => {
+    const allowTags: TagRule[] = [{ mode: 'exact', pattern: 'landscape' }, { mode: 'prefix', pattern: 'sky' }]
+    assert.deepEqual(filter({ allowTags }, createIllust(['skyline'])), [])
+    assert.deepEqual(filter({ allowTags }, createIllust(['portrait'])), ['未命中任何允许标签'])
+  })
+
+  it('skips invalid regex rules and reports them', () => {
+    const invalid: TagRule[] = []
+    const check = createIllustFilter({ ...rules, blockTags: [{ mode: 'regex', pattern: '(' }] }, rule => invalid.push(rule))
+    assert.deepEqual(check(createIllust(['(']), open), [])
+    assert.deepEqual(invalid, [{ mode: 'regex', pattern: '(' }])
+  })
+})
+
+describe('content policy', () => {
+  it('gates R18 by x_restrict and tags', () => {
+    assert.deepEqual(filter({}, createIllust([], { x_restrict: 1 }), strict), ['R18 作品 (x_restrict=1)'])
+    assert.deepEqual(filter({}, createIllust(['R-18']), strict), ['R18 标签「r-18」'])
+    assert.deepEqual(filter({}, createIllust([], { x_restrict: 1 }), { ...strict, allowR18: true }), [])
+  })
+
+  it('gates R18-G separately from R18', () => {
+    const illust = createIllust([], { x_restrict: 2 })
+    assert.deepEqual(filter({}, illust, strict), ['R18 作品 (x_restrict=2)', 'R18-G 作品 (x_restrict=2)'])
+    assert.deepEqual(filter({}, illust, { ...strict, allowR18: true }), ['R18-G 作品 (x_restrict=2)'])
+    assert.deepEqual(filter({}, illust, { ...strict, allowR18: true, allowR18G: true }), [])
+  })
+
+  it('gates AI works by illust_ai_type and falls back to tags', () => {
+    assert.deepEqual(filter({}, createIllust([], { illust_ai_type: 2 }), strict), ['AI 生成作品 (illust_ai_type=2)'])
+    assert.deepEqual(filter({}, createIllust(['AI生成'], { illust_ai_type: 0 }), strict), ['AI 标签「ai生成」'])
+    // Pixiv 标记为非 AI 时不参考标签
+    assert.deepEqual(filter({}, createIllust(['AI'], { illust_ai_type: 1 }), strict), [])
+    assert.deepEqual(filter({}, createIllust(['fairy', 'maid', 'kaiju'], { illust_ai_type: 0 }), strict), [])
+    assert.deepEqual(filter({}, createIllust([], { illust_ai_type: 2 }), { ...strict, allowAI: true }), [])
+  })
+
+  it('applies sanity level, type and bookmark rules', () => {
+    const illust = createIllust([], { type: 'ugoira', sanity_level: 6, total_bookmarks: 10 })
+    assert.deepEqual(filter({ maxSanityLevel: 4, illustTypes: ['illust'], minBookmarks: 50 }, illust), [
+      'sanity_level 6 超过上限 4',
+      '作品类型 ugoira 不在允许范围内',
+      '收藏数 10 低于 50',
+    ])
+  })
+})
+
+describe('search filters', () => {
+  it('filters by orientation', () => {
+    assert.equal(matchSearchFilters(createIllust([]), { orientation: 'portrait' }), true)
+    assert.equal(matchSearchFilters(createIllust([]), { orientation: 'landscape' }), false)
+    assert.equal(matchSearchFilters(createIllust([], { width: 1050, height: 1000 }), { orientation: 'square' }), true)
+  })
+
+  it('filters by page count', () => {
+    const illust = createIllust([], { page_count: 3 })
+    assert.equal(matchSearchFilters(illust, { minPages: 2, maxPages: 3 }), true)
+    assert.equal(matchSearchFilters(illust, { minPages: 4 }), false)
+    assert.equal(matchSearchFilters(illust, { maxPages: 2 }), false)
+  })
+
+  it('filters by bookmarks and views', () => {
+    const illust = createIllust([], { total_bookmarks: 100, total_view: 1000 })
+    assert.equal(matchSearchFilters(illust, { minBookmarks: 100, minViews: 1000 }), true)
+    assert.equal(matchSearchFilters(illust, { minBookmarks: 101 }), false)
+    assert.equal(matchSearchFilters(illust, { minViews: 1001 }), false)
+  })
+})
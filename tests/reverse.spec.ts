@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { ReverseSearchMatch, createReverseSearchProvider, createStubProvider, resolveReverseSearch } from '../src/reverse'
+
+const matches: ReverseSearchMatch[] = [
+  { illustId: 2, similarity: 80 },
+  { illustId: 1, similarity: 95 },
+  { illustId: 3, similarity: 40 },
+]
+
+const image = { data: Buffer.from('') }
+
+const options = { apiKey: '', minSimilarity: 70, maxResults: 5 }
+
+const createProvider = (items = matches) => {
+  return createReverseSearchProvider('stub', options, { stub: createStubProvider(items) })
+}
+
+const illusts: Record<number, any> = {
+  1: { id: 1, title: 'first' },
+  2: { id: 2, title: 'second' },
+}
+
+const fetchIllust = async (illustId: number) => illusts[illustId]
+
+describe('reverse search', () => {
+  it('rejects unknown providers', () => {
+    assert.throws(() => createReverseSearchProvider('unknown', options, {}), /未知的以图搜图服务/)
+  })
+
+  it('accepts a provider object', () => {
+    const provider = createProvider()
+    assert.equal(createReverseSearchProvider(provider, options), provider)
+  })
+
+  it('resolves the best match to its illust', async () => {
+    const result = await resolveReverseSearch(createProvider(), image, fetchIllust, () => true)
+    assert.equal(result.type, 'found')
+    if (result.type !== 'found') return
+    assert.equal(result.illust.id, 1)
+    assert.equal(result.match.similarity, 95)
+    assert.deepEqual(result.others.map(match => match.illustId), [2])
+  })
+
+  it('returns empty when nothing passes the similarity threshold', async () => {
+    const result = await resolveReverseSearch(createProvider([{ illustId: 3, similarity: 40 }]), image, fetchIllust, () => true)
+    assert.deepEqual(result, { type: 'empty' })
+  })
+
+  it('does not fall back to other matches when the best one is unavailable', async () => {
+    const missing = await resolveReverseSearch(createProvider([{ illustId: 9, similarity: 99 }, ...matches]), image, fetchIllust, () => true)
+    assert.equal(missing.type, 'missing')
+
+    const filtered = await resolveReverseSearch(createProvider(), image, fetchIllust, illust => illust.id !== 1)
+    assert.equal(filtered.type, 'filtered')
+    if (filtered.type !== 'filtered') return
+    assert.equal(filtered.match.illustId, 1)
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { RetryEvent, SchedulerOptions, createScheduler, getRetryAfter, isRetryableError } from '../src/scheduler'
+
+const options: SchedulerOptions = { concurrency: 2, retries: 3, baseDelay: 4, maxDelay: 20 }
+
+const httpError = (status: number, headers: Record<string, string> = {}) => {
+  return Object.assign(new Error(`status ${status}`), { response: { status, headers } })
+}
+
+// 前 failures 次调用抛出 error，之后返回 result
+const createFlaky = (failures: number, error: any, result = 'ok') => {
+  const task = async () => {
+    if (task.calls++ < failures) throw error
+    return result
+  }
+  task.calls = 0
+  return task
+}
+
+describe('retryable errors', () => {
+  it('retries 429, 5xx and transient network errors', () => {
+    assert.equal(isRetryableError(httpError(429)), true)
+    assert.equal(isRetryableError(httpError(503)), true)
+    assert.equal(isRetryableError(Object.assign(new Error(), { code: 'ECONNRESET' })), true)
+    assert.equal(isRetryableError(new Error('socket hang up')), true)
+    assert.equal(isRetryableError(httpError(404)), false)
+    assert.equal(isRetryableError(new Error('boom')), false)
+  })
+
+  it('reads Retry-After in seconds or as a date', () => {
+    assert.equal(getRetryAfter(httpError(429, { 'retry-after': '2' })), 2000)
+    const later = getRetryAfter(httpError(429, { 'retry-after': new Date(Date.now() + 60000).toUTCString() }))
+    assert.ok(later! > 50000 && later! <= 60000)
+    assert.equal(getRetryAfter(httpError(429, { 'retry-after': 'soon' })), undefined)
+    assert.equal(getRetryAfter(httpError(429)), undefined)
+  })
+})
+
+describe('scheduler', () => {
+  it('retries retryable failures until the task succeeds', async () => {
+    const events: RetryEvent[] = []
+    const scheduler = createScheduler(options, event => events.push(event))
+    const task = createFlaky(2, httpError(503))
+    assert.equal(await scheduler.run('flaky', task), 'ok')
+    assert.equal(task.calls, 3)
+    assert.deepEqual(events.map(event => [event.label, event.attempt]), [['flaky', 1], ['flaky', 2]])
+    assert.deepEqual(scheduler.stats(), { active: 0, queued: 0, completed: 1, failed: 0, retries: 2 })
+  })
+
+  it('gives up after the retry budget', async () => {
+    const scheduler = createScheduler({ ...options, retries: 1 })
+    const error = httpError(503)
+    const task = createFlaky(5, error)
+    await assert.rejects(scheduler.run('flaky', task), error)
+    assert.equal(task.calls, 2)
+    assert.equal(scheduler.stats().failed, 1)
+  })
+
+  it('does not retry errors rejected by the predicate', async () => {
+    const scheduler = createScheduler(options)
+    const notFound = createFlaky(1, httpError(404))
+    await assert.rejects(scheduler.run('missing', notFound), /status 404/)
+    assert.equal(notFound.calls, 1)
+
+    const custom = createFlaky(1, new Error('boom'))
+    assert.equal(await scheduler.run('custom', custom, error => error.message === 'boom'), 'ok')
+    assert.equal(custom.calls, 2)
+  })
+
+  it('backs off exponentially with jitter up to the maximum delay', async () => {
+    const delays: number[] = []
+    const scheduler = createScheduler({ ...options, retries: 4, maxDelay: 12 }, event => delays.push(event.delay))
+    await scheduler.run('backoff', createFlaky(4, httpError(500)))
+    // baseDelay * 2^attempt 乘以 0.5~1 的抖动：4、8、16、32，超过 12 的按 12 计算
+    const limits = [4, 8, 12, 12]
+    delays.forEach((delay, index) => {
+      assert.ok(delay >= limits[index] / 2 && delay <= limits[index], `delay ${delay} for attempt ${index + 1}`)
+    })
+    assert.equal(delays.length, 4)
+  })
+
+  it('waits at least Retry-After but never longer than the maximum delay', async () => {
+    const delays: number[] = []
+    const scheduler = createScheduler(options, event => delays.push(event.delay))
+    await scheduler.run('limited', createFlaky(1, httpError(429, { 'retry-after': '0.01' })))
+    await scheduler.run('limited', createFlaky(1, httpError(429, { 'retry-after': '60' })))
+    assert.ok(delays[0] >= 10 && delays[0] <= 20)
+    assert.equal(delays[1], 20)
+  })
+
+  it('limits the number of tasks running at the same time', async () => {
+    const scheduler = createScheduler(options)
+    let running = 0
+    let peak = 0
+    const task = async () => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      running--
+    }
+    const tasks = Array.from({ length: 5 }, (_, index) => scheduler.run(`task ${index}`, task))
+    assert.deepEqual({ active: scheduler.stats().active, queued: scheduler.stats().queued }, { active: 2, queued: 3 })
+    await Promise.all(tasks)
+    assert.equal(peak, 2)
+    assert.equal(scheduler.stats().completed, 5)
+  })
+
+  it('releases the slot while waiting to retry', async () => {
+    const scheduler = createScheduler({ ...options, concurrency: 1, baseDelay: 20 })
+    const order: string[] = []
+    const flaky = scheduler.run('flaky', async () => {
+      order.push('flaky')
+      if (order.length === 1) throw httpError(503)
+    })
+    const other = scheduler.run('other', async () => {
+      order.push('other')
+    })
+    await Promise.all([flaky, other])
+    assert.deepEqual(order, ['flaky', 'other', 'flaky'])
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { zipSync } from 'fflate'
+import { encode } from 'jpeg-js'
+import { UgoiraFrame, encodeUgoiraGif, sampleFrames } from '../src/ugoira'
+
+const createFrames = (delays: number[]): UgoiraFrame[] => {
+  return delays.map((delay, index) => ({ file: `${String(index).padStart(6, '0')}.jpg`, delay }))
+}
+
+// 生成带噪点的 JPEG 帧，避免 GIF 压缩得过小
+const createJpeg = (seed: number, size = 32) => {
+  const data = Buffer.alloc(size * size * 4)
+  let value = seed
+  for (let i = 0; i < data.length; i++) {
+    value = (value * 1103515245 + 12345) % 2147483648
+    data[i] = value % 256
+  }
+  return encode({ data, width: size, height: size }, 90).data
+}
+
+const createZip = (frames: UgoiraFrame[]) => {
+  return zipSync(Object.fromEntries(frames.map((frame, index) => [frame.file, createJpeg(index + 1)])))
+}
+
+// 读取 GIF 中每帧的图形控制扩展里的间隔（单位为 10 毫秒）
+const readDelays = (gif: Buffer) => {
+  const delays: number[] = []
+  for (let i = 0; i < gif.length - 5; i++) {
+    if (gif[i] === 0x21 && gif[i + 1] === 0xF9 && gif[i + 2] === 0x04) {
+      delays.push(gif.readUInt16LE(i + 4) * 10)
+    }
+  }
+  return delays
+}
+
+describe('ugoira', () => {
+  it('keeps frames when under the limit', () => {
+    const frames = createFrames([10, 20, 30])
+    assert.equal(sampleFrames(frames, 3), frames)
+  })
+
+  it('samples frames evenly and keeps the total delay', () => {
+    const frames = createFrames([10, 20, 30, 40, 50, 60, 70])
+    const sampled = sampleFrames(frames, 3)
+    assert.deepEqual(sampled, [
+      { file: frames[0].file, delay: 60 },
+      { file: frames[3].file, delay: 150 },
+      { file: frames[6].file, delay: 70 },
+    ])
+    const total = (list: UgoiraFrame[]) => list.reduce((sum, frame) => sum + frame.delay, 0)
+    assert.equal(total(sampled), total(frames))
+  })
+
+  it('encodes a GIF with the sampled frame delays', async () => {
+    const frames = createFrames([100, 100, 200, 50])
+    const gif = await encodeUgoiraGif(createZip(frames), frames, { maxFrames: 2, maxSize: 1024 * 1024 })
+    assert.equal(gif.subarray(0, 6).toString(), 'GIF89a')
+    assert.deepEqual(readDelays(gif), [200, 250])
+  })
+
+  it('stops encoding once the output exceeds the size limit', async () => {
+    const frames = createFrames([100, 100, 100])
+    // 最后一帧不在 ZIP 中：如果超出上限后仍继续编码，会得到帧不存在的错误
+    const zip = createZip(frames.slice(0, 2))
+    await assert.rejects(encodeUgoiraGif(zip, frames, { maxFrames: 10, maxSize: 1024 }), /动图过大：超过 0\.0 MB/)
+    await assert.rejects(encodeUgoiraGif(zip, frames, { maxFrames: 10, maxSize: 1024 * 1024 }), /动图帧不存在/)
+  })
+})